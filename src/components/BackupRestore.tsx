@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  Radio,
+  RadioGroup,
+  FormControlLabel,
+  CircularProgress,
+} from '@mui/material';
+import {
+  Backup as BackupIcon,
+  Restore as RestoreIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { Backup, RestoreMode, createBackup, parseBackup, restoreBackup } from '../lib/backup';
+import { downloadFile } from '../lib/exportData';
+
+export default function BackupRestore() {
+  const [pending, setPending] = useState<{ name: string; backup: Backup } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [working, setWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [messageType, setMessageType] = useState<'success' | 'error' | 'info'>('info');
+
+  const handleBackup = async () => {
+    setWorking(true);
+    try {
+      const backup = await createBackup();
+      downloadFile(
+        `mantra-backup-${dayjs().format('YYYY-MM-DD')}.json`,
+        JSON.stringify(backup, null, 2),
+        'application/json'
+      );
+      setMessage(`Backed up ${backup.stores.recitations.length} recitations`);
+      setMessageType('success');
+    } catch (error) {
+      setMessage(`Backup failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMessageType('error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!selected) return;
+
+    try {
+      setPending({ name: selected.name, backup: parseBackup(await selected.text()) });
+      setMessage('');
+    } catch (error) {
+      setPending(null);
+      setMessage(error instanceof Error ? error.message : 'Could not read backup');
+      setMessageType('error');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+    if (mode === 'replace' && !window.confirm('Replace all data on this device with the backup? This cannot be undone.')) {
+      return;
+    }
+
+    setWorking(true);
+    try {
+      await restoreBackup(pending.backup, mode);
+      setMessage('Backup restored! Reloading page...');
+      setMessageType('success');
+      // Reload so every service picks up the restored data
+      setTimeout(() => window.location.reload(), 1000);
+    } catch (error) {
+      setMessage(`Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setMessageType('error');
+      setWorking(false);
+    }
+  };
+
+  const stores = pending?.backup.stores;
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Typography variant="h5" component="h2" gutterBottom>
+          Backup &amp; Restore
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Save everything on this device (recitations, your mantras, Daily Banis progress and unsynced changes)
+          to a single file, and restore it here or in another browser.
+        </Typography>
+
+        <Box display="flex" gap={2} flexWrap="wrap">
+          <Button
+            variant="contained"
+            onClick={handleBackup}
+            disabled={working}
+            startIcon={working ? <CircularProgress size={20} /> : <BackupIcon />}
+          >
+            Download Backup
+          </Button>
+          <Button variant="outlined" component="label" disabled={working} startIcon={<RestoreIcon />}>
+            Restore from File
+            <input type="file" hidden accept=".json,application/json" onChange={handleFileChange} />
+          </Button>
+        </Box>
+
+        {message && (
+          <Alert severity={messageType} sx={{ mt: 2 }} onClose={() => setMessage('')}>
+            {message}
+          </Alert>
+        )}
+
+        {pending && stores && (
+          <Box mt={3}>
+            <Typography variant="subtitle1">
+              {pending.name}
+            </Typography>
+            <Typography variant="body2" color="textSecondary" gutterBottom>
+              Created {dayjs(pending.backup.createdAt).format('MMM D, YYYY h:mm A')} •{' '}
+              {stores.recitations.length} recitations • {stores.userMantras.length} custom mantras •{' '}
+              {stores.baniSessions.length} days of Daily Banis • {stores.syncQueue.length + stores.deadLetter.length} unsynced changes
+            </Typography>
+
+            <RadioGroup value={mode} onChange={(e) => setMode(e.target.value as RestoreMode)}>
+              <FormControlLabel
+                value="merge"
+                control={<Radio />}
+                label="Merge: keep data on this device and add anything missing from the backup"
+              />
+              <FormControlLabel
+                value="replace"
+                control={<Radio />}
+                label="Replace: discard data on this device and use the backup exactly"
+              />
+            </RadioGroup>
+
+            <Box display="flex" gap={1} mt={1}>
+              <Button
+                variant="contained"
+                color={mode === 'replace' ? 'error' : 'primary'}
+                onClick={handleRestore}
+                disabled={working}
+              >
+                Restore
+              </Button>
+              <Button onClick={() => setPending(null)} disabled={working}>
+                Cancel
+              </Button>
+            </Box>
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
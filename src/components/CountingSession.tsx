@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  Typography,
+  Box,
+  Button,
+  ButtonBase,
+  IconButton,
+} from '@mui/material';
+import {
+  Close as CloseIcon,
+  Pause as PauseIcon,
+  PlayArrow as PlayIcon,
+  Remove as RemoveIcon,
+} from '@mui/icons-material';
+
+interface CountingSessionProps {
+  open: boolean;
+  mantraName?: string;
+  onClose: () => void;
+  onFinish: (result: { count: number; duration: number; startedAt: Date }) => void;
+}
+
+const MALA_SIZE = 108;
+const RING_SIZE = 220;
+const RING_STROKE = 14;
+
+// Keys that add a bead; volume keys only reach the page on some mobile browsers
+const INCREMENT_KEYS = [' ', 'Spacebar', 'AudioVolumeUp', 'AudioVolumeDown', 'VolumeUp', 'VolumeDown'];
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`;
+}
+
+export default function CountingSession({ open, mantraName, onClose, onFinish }: CountingSessionProps) {
+  const [count, setCount] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [startedAt, setStartedAt] = useState<Date>(new Date());
+  // Time banked before the last resume, plus when the current running stretch began
+  const [bankedMs, setBankedMs] = useState(0);
+  const [runningSince, setRunningSince] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const countRef = useRef(0);
+
+  // Start a fresh session every time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setCount(0);
+      countRef.current = 0;
+      setPaused(false);
+      setStartedAt(new Date());
+      setBankedMs(0);
+      setRunningSince(Date.now());
+      setNow(Date.now());
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (!open || paused) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [open, paused]);
+
+  const elapsedMs = bankedMs + (runningSince !== null ? now - runningSince : 0);
+
+  const increment = useCallback(() => {
+    if (paused) return;
+    countRef.current += 1;
+    setCount(countRef.current);
+    // A short buzz marks each completed mala
+    if (countRef.current % MALA_SIZE === 0 && navigator.vibrate) {
+      navigator.vibrate(200);
+    }
+  }, [paused]);
+
+  const decrement = () => {
+    countRef.current = Math.max(0, countRef.current - 1);
+    setCount(countRef.current);
+  };
+
+  const togglePause = useCallback(() => {
+    const timestamp = Date.now();
+    if (paused) {
+      setRunningSince(timestamp);
+    } else {
+      setBankedMs(banked => banked + (runningSince !== null ? timestamp - runningSince : 0));
+      setRunningSince(null);
+    }
+    setNow(timestamp);
+    setPaused(!paused);
+  }, [paused, runningSince]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (INCREMENT_KEYS.includes(e.key)) {
+        e.preventDefault();
+        if (!e.repeat) increment();
+      } else if (e.key === 'p' || e.key === 'P') {
+        togglePause();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, increment, togglePause]);
+
+  const handleFinish = () => {
+    const minutes = Math.round(elapsedMs / 60000);
+    onFinish({ count, duration: Math.max(1, minutes), startedAt });
+  };
+
+  const handleClose = () => {
+    if (count === 0 || window.confirm('Discard this counting session?')) {
+      onClose();
+    }
+  };
+
+  const beads = count % MALA_SIZE;
+  const malas = Math.floor(count / MALA_SIZE);
+  const radius = (RING_SIZE - RING_STROKE) / 2;
+  const circumference = 2 * Math.PI * radius;
+
+  return (
+    <Dialog open={open} onClose={handleClose} fullScreen>
+      <DialogContent sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', p: 2 }}>
+        <Box width="100%" display="flex" justifyContent="space-between" alignItems="center">
+          <Typography variant="h6">
+            {mantraName || 'Counting Session'}
+          </Typography>
+          <IconButton onClick={handleClose} aria-label="Discard session">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        <Typography variant="h4" sx={{ fontVariantNumeric: 'tabular-nums', mt: 1 }} color={paused ? 'textSecondary' : 'textPrimary'}>
+          {formatElapsed(elapsedMs)}
+        </Typography>
+        {paused && (
+          <Typography variant="body2" color="textSecondary">
+            Paused
+          </Typography>
+        )}
+
+        {/* Tap target with the mala ring */}
+        <ButtonBase
+          onClick={increment}
+          disabled={paused}
+          aria-label="Add one"
+          sx={{
+            mt: 3,
+            width: 'min(80vw, 360px)',
+            height: 'min(80vw, 360px)',
+            borderRadius: '50%',
+            bgcolor: 'action.hover',
+            display: 'flex',
+            flexDirection: 'column',
+            position: 'relative',
+            userSelect: 'none',
+            touchAction: 'manipulation',
+          }}
+        >
+          <svg
+            viewBox={`0 0 ${RING_SIZE} ${RING_SIZE}`}
+            width="85%"
+            height="85%"
+            style={{ position: 'absolute' }}
+          >
+            <circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={radius}
+              fill="none"
+              stroke="#e5e7eb"
+              strokeWidth={RING_STROKE}
+            />
+            <circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={radius}
+              fill="none"
+              stroke="#6b46c1"
+              strokeWidth={RING_STROKE}
+              strokeLinecap="round"
+              strokeDasharray={circumference}
+              strokeDashoffset={circumference * (1 - beads / MALA_SIZE)}
+              transform={`rotate(-90 ${RING_SIZE / 2} ${RING_SIZE / 2})`}
+            />
+          </svg>
+          <Typography variant="h2" sx={{ fontVariantNumeric: 'tabular-nums' }}>
+            {beads}
+          </Typography>
+          <Typography variant="body2" color="textSecondary">
+            of {MALA_SIZE}
+          </Typography>
+        </ButtonBase>
+
+        <Box display="flex" gap={4} mt={3} textAlign="center">
+          <Box>
+            <Typography variant="h5">{malas}</Typography>
+            <Typography variant="body2" color="textSecondary">
+              {malas === 1 ? 'mala' : 'malas'}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="h5">{count.toLocaleString()}</Typography>
+            <Typography variant="body2" color="textSecondary">total</Typography>
+          </Box>
+        </Box>
+
+        <Typography variant="caption" color="textSecondary" sx={{ mt: 2 }}>
+          Tap the circle, press Space or a volume key to count • P to pause
+        </Typography>
+
+        <Box display="flex" gap={2} mt={3} flexWrap="wrap" justifyContent="center">
+          <Button variant="outlined" startIcon={<RemoveIcon />} onClick={decrement} disabled={count === 0}>
+            Undo
+          </Button>
+          <Button variant="outlined" startIcon={paused ? <PlayIcon /> : <PauseIcon />} onClick={togglePause}>
+            {paused ? 'Resume' : 'Pause'}
+          </Button>
+          <Button variant="contained" onClick={handleFinish} disabled={count === 0}>
+            End Session
+          </Button>
+        </Box>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Button,
+  List,
+  ListItem,
+  ListItemText,
+  ListItemSecondaryAction,
+  Box,
+  Checkbox,
+  Paper,
+  IconButton,
+  Tooltip,
+} from '@mui/material';
+import {
+  ChevronLeft as PreviousDayIcon,
+  ChevronRight as NextDayIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs from 'dayjs';
+import WheelTimer from './WheelTimer';
+import VowTracker from './VowTracker';
+import { dailyBanis } from '../constants/mantraCategories';
+import { BaniSession, MantraRecitation } from '../types';
+import { baniSessionRepository } from '../lib/repository';
+import { addDays, dayTimeToDate, todayKey } from '../lib/dates';
+import { recitationService } from '../services/recitationService';
+import { syncQueueService } from '../services/syncQueueService';
+import { useMantras } from '../hooks/useMantras';
+
+// Minutes after midnight for a WheelTimer value such as "06:30 AM" (hours may already be 24-hour)
+function timeToMinutes(time: string): number {
+  const [clock, period] = time.split(' ');
+  const [h, m] = clock.split(':').map(Number);
+  let hours = h;
+  if (h <= 12 && period === 'PM' && h !== 12) hours += 12;
+  if (h <= 12 && period === 'AM' && h === 12) hours = 0;
+  return hours * 60 + m;
+}
+
+// Recitation time and length for a session; an end time before the start runs past midnight
+function getSessionTiming(session: BaniSession): { timestamp: Date; duration?: number } {
+  const start = timeToMinutes(session.startTime);
+  const end = timeToMinutes(session.endTime);
+  const duration = (end - start + 24 * 60) % (24 * 60);
+  return {
+    timestamp: dayTimeToDate(session.date, start),
+    duration: duration > 0 ? duration : undefined,
+  };
+}
+
+// A fresh day: every bani not yet done
+function initialSessions(date: string): BaniSession[] {
+  return dailyBanis.map(bani => ({
+    bani,
+    completed: false,
+    startTime: '06:00 AM',
+    endTime: '06:30 AM',
+    date
+  }));
+}
+
+export default function DailyBanis() {
+  const mantras = useMantras();
+  const [selectedDate, setSelectedDate] = useState(() => todayKey());
+  const [baniSessions, setBaniSessions] = useState<BaniSession[]>([]);
+  const [showBaniTimer, setShowBaniTimer] = useState<string | null>(null);
+  const [pendingBanis, setPendingBanis] = useState<string[]>([]);
+  // IDs of the logged recitations, or null until they have loaded
+  const [recitationIds, setRecitationIds] = useState<Set<string> | null>(null);
+  // The shown day's sessions as of the last change, for updates that land after an await
+  const sessionsRef = useRef<BaniSession[]>([]);
+
+  const today = todayKey();
+
+  useEffect(() => {
+    // A slower load for a day the user has already moved past must not replace the shown day
+    let cancelled = false;
+    setShowBaniTimer(null);
+    baniSessionRepository.get(selectedDate).then(stored => {
+      if (cancelled) return;
+      const sessions = stored || initialSessions(selectedDate);
+      sessionsRef.current = sessions;
+      setBaniSessions(sessions);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate]);
+
+  useEffect(() => {
+    return recitationService.subscribe(recitations => setRecitationIds(new Set(recitations.map(r => r.id))));
+  }, []);
+
+  // Deleting a bani's recitation from History undoes the bani, as unticking it would
+  useEffect(() => {
+    if (!recitationIds) return;
+    const unlinked = (session: BaniSession) =>
+      session.completed && !!session.recitationId && !recitationIds.has(session.recitationId) && !pendingBanis.includes(session.bani);
+    if (!baniSessions.some(unlinked)) return;
+
+    const updatedSessions = baniSessions.map(session =>
+      unlinked(session) ? { ...session, completed: false, recitationId: undefined } : session
+    );
+    sessionsRef.current = updatedSessions;
+    setBaniSessions(updatedSessions);
+    baniSessionRepository.put(updatedSessions[0].date, updatedSessions)
+      .catch(error => console.error('Error saving bani sessions:', error));
+  }, [recitationIds, baniSessions, pendingBanis]);
+
+  const showSessions = (sessions: BaniSession[]) => {
+    sessionsRef.current = sessions;
+    setBaniSessions(sessions);
+  };
+
+  /**
+   * Apply changes to one bani of a day, starting from the latest sessions rather than the
+   * ones this render saw: a toggle can finish after other banis changed or the day was switched.
+   */
+  const updateBaniSession = async (date: string, bani: string, updates: Partial<BaniSession>) => {
+    const shown = sessionsRef.current.length > 0 && sessionsRef.current[0].date === date;
+    const current = shown
+      ? sessionsRef.current
+      : (await baniSessionRepository.get(date)) || initialSessions(date);
+
+    const updatedSessions = current.map(session =>
+      session.bani === bani ? { ...session, ...updates } : session
+    );
+    if (shown) showSessions(updatedSessions);
+    await baniSessionRepository.put(date, updatedSessions)
+      .catch(error => console.error('Error saving bani sessions:', error));
+  };
+
+  const buildRecitation = (session: BaniSession): Omit<MantraRecitation, 'id'> => ({
+    mantraId: mantras.find(m => m.name === session.bani)?.id || 'custom',
+    mantraName: session.bani,
+    count: 1,
+    ...getSessionTiming(session),
+  });
+
+  // Remove a linked recitation locally and on the backend; it may already have been deleted from History
+  const removeLinkedRecitation = async (id: string) => {
+    const recitation = (await recitationService.getRecitations()).find(r => r.id === id);
+    if (!recitation) return;
+
+    await syncQueueService.queueRecitation(recitation, 'delete');
+    await recitationService.deleteRecitation(id);
+  };
+
+  // Completing a bani logs a recitation for it; unticking removes that recitation again
+  const toggleBaniCompletion = async (bani: string) => {
+    const session = baniSessions.find(s => s.bani === bani);
+    if (!session) return;
+
+    setPendingBanis(pending => [...pending, bani]);
+    try {
+      if (session.completed) {
+        if (session.recitationId) await removeLinkedRecitation(session.recitationId);
+        await updateBaniSession(session.date, bani, { completed: false, recitationId: undefined });
+      } else {
+        const recitation = await recitationService.addRecitation(buildRecitation(session));
+        await syncQueueService.queueRecitation(recitation);
+        await updateBaniSession(session.date, bani, { completed: true, recitationId: recitation.id });
+      }
+    } catch (error) {
+      console.error('Error linking bani recitation:', error);
+    } finally {
+      setPendingBanis(pending => pending.filter(b => b !== bani));
+    }
+  };
+
+  // Carry edited times over to the linked recitation once the user is done adjusting them
+  const closeBaniTimer = async () => {
+    const session = baniSessions.find(s => s.bani === showBaniTimer);
+    setShowBaniTimer(null);
+    if (!session?.completed || !session.recitationId) return;
+
+    try {
+      const updated = await recitationService.updateRecitation(session.recitationId, {
+        ...getSessionTiming(session),
+        syncState: 'pending',
+      });
+      if (updated) {
+        await syncQueueService.queueRecitation(updated, 'update');
+      }
+    } catch (error) {
+      console.error('Error updating bani recitation:', error);
+    }
+  };
+
+  const openBaniTimer = async (bani: string) => {
+    if (showBaniTimer) await closeBaniTimer();
+    if (showBaniTimer !== bani) setShowBaniTimer(bani);
+  };
+
+  const shiftDate = (days: number) => {
+    setSelectedDate(addDays(selectedDate, days));
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" gap={4} flexWrap="wrap" alignItems="flex-start">
+          <Box flex="1 1 400px">
+            <Typography variant="h6" gutterBottom>
+              Daily Banis Tracker
+            </Typography>
+            <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+              Track your daily Bani recitations with precise start and end times.
+              Completed Banis are added to your recitation log.
+            </Typography>
+
+            {/* Day navigation */}
+            <Box display="flex" alignItems="center" gap={1} mb={2}>
+              <Tooltip title="Previous day">
+                <IconButton onClick={() => shiftDate(-1)}>
+                  <PreviousDayIcon />
+                </IconButton>
+              </Tooltip>
+              <DatePicker
+                label="Day"
+                value={dayjs(selectedDate)}
+                onChange={(newValue) => newValue && newValue.isValid() && setSelectedDate(newValue.format('YYYY-MM-DD'))}
+                maxDate={dayjs(today)}
+                slotProps={{ textField: { size: 'small' } }}
+              />
+              <Tooltip title="Next day">
+                <span>
+                  <IconButton onClick={() => shiftDate(1)} disabled={selectedDate >= today}>
+                    <NextDayIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+              {selectedDate !== today && (
+                <Button size="small" onClick={() => setSelectedDate(today)}>
+                  Today
+                </Button>
+              )}
+            </Box>
+
+            {/* Daily Banis List */}
+            <List>
+              {baniSessions.map((session) => (
+                <ListItem key={session.bani} sx={{
+                  border: 1,
+                  borderColor: 'divider',
+                  borderRadius: 1,
+                  mb: 1,
+                  backgroundColor: session.completed ? 'success.light' : 'background.paper'
+                }}>
+                  <Checkbox
+                    checked={session.completed}
+                    disabled={pendingBanis.includes(session.bani)}
+                    onChange={() => toggleBaniCompletion(session.bani)}
+                    sx={{ mr: 2 }}
+                  />
+                  <ListItemText
+                    primary={
+                      <Typography variant="subtitle1" sx={{
+                        textDecoration: session.completed ? 'line-through' : 'none',
+                        fontWeight: session.completed ? 'normal' : 'medium'
+                      }}>
+                        {session.bani}
+                      </Typography>
+                    }
+                    secondary={
+                      session.completed
+                        ? `Completed: ${session.startTime} - ${session.endTime}`
+                        : `Planned: ${session.startTime} - ${session.endTime}`
+                    }
+                  />
+                  <ListItemSecondaryAction>
+                    <Button
+                      size="small"
+                      variant={showBaniTimer === session.bani ? "contained" : "outlined"}
+                      onClick={() => openBaniTimer(session.bani)}
+                    >
+                      Set Times
+                    </Button>
+                  </ListItemSecondaryAction>
+                </ListItem>
+              ))}
+            </List>
+
+            {/* Timer Interface */}
+            {showBaniTimer && (
+              <Paper elevation={2} sx={{ p: 3, mt: 2 }}>
+                <Typography variant="h6" gutterBottom>
+                  Set Times for {showBaniTimer}
+                </Typography>
+                <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+                  <Box sx={{ flex: '1 1 300px' }}>
+                    <WheelTimer
+                      label="Start Time"
+                      value={baniSessions.find(s => s.bani === showBaniTimer)?.startTime || '06:00 AM'}
+                      onChange={(time) => updateBaniSession(selectedDate, showBaniTimer, { startTime: time })}
+                    />
+                  </Box>
+                  <Box sx={{ flex: '1 1 300px' }}>
+                    <WheelTimer
+                      label="End Time"
+                      value={baniSessions.find(s => s.bani === showBaniTimer)?.endTime || '06:30 AM'}
+                      onChange={(time) => updateBaniSession(selectedDate, showBaniTimer, { endTime: time })}
+                    />
+                  </Box>
+                </Box>
+                <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}>
+                  <Button
+                    variant="contained"
+                    onClick={closeBaniTimer}
+                  >
+                    Done
+                  </Button>
+                </Box>
+              </Paper>
+            )}
+          </Box>
+
+          {/* Vows sit alongside the daily tracker */}
+          <Box flex="1 1 400px">
+            <VowTracker mantras={mantras} />
+          </Box>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
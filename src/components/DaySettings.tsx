@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Alert,
+  Autocomplete,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import dayjs from 'dayjs';
+import {
+  DEFAULT_DATE_SETTINGS,
+  getDateSettings,
+  getTimeZone,
+  getTimeZoneOptions,
+  saveDateSettings,
+  todayKey,
+} from '../lib/dates';
+
+const BROWSER_TIME_ZONE = 'Browser default';
+
+const formatHour = (hour: number) => (hour === 0 ? 'Midnight' : dayjs().hour(hour).minute(0).format('h:mm A'));
+
+export default function DaySettings() {
+  const [saved] = useState(getDateSettings);
+  const [timeZone, setTimeZone] = useState<string>(saved.timeZone || BROWSER_TIME_ZONE);
+  const [dayStartHour, setDayStartHour] = useState(saved.dayStartHour);
+  const [message, setMessage] = useState('');
+
+  const timeZoneOptions = useMemo(() => [BROWSER_TIME_ZONE, ...getTimeZoneOptions()], []);
+  const unchanged = (saved.timeZone || BROWSER_TIME_ZONE) === timeZone && saved.dayStartHour === dayStartHour;
+
+  const handleSave = () => {
+    saveDateSettings({ timeZone: timeZone === BROWSER_TIME_ZONE ? null : timeZone, dayStartHour });
+    setMessage(`Saved! Today is now ${dayjs(todayKey()).format('ddd, MMM D')}. Reloading page...`);
+    // Reload so streaks, goals, vows and Daily Banis all regroup by the new day boundaries
+    setTimeout(() => window.location.reload(), 1000);
+  };
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Typography variant="h5" component="h2" gutterBottom>
+          Practice Day
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Choose the timezone and the hour your practice day begins. Streaks, goals, vows, the calendar
+          and Daily Banis all count days this way, so practice before the start hour (e.g. amrit vela
+          before 3 AM) counts toward the previous day.
+        </Typography>
+
+        {message && (
+          <Alert severity="success" sx={{ mb: 2 }}>
+            {message}
+          </Alert>
+        )}
+
+        <Box display="flex" gap={2} flexWrap="wrap" alignItems="center">
+          <Autocomplete
+            value={timeZone}
+            options={timeZoneOptions}
+            onChange={(e, value) => setTimeZone(value || BROWSER_TIME_ZONE)}
+            disableClearable
+            sx={{ minWidth: 280 }}
+            getOptionLabel={(option) => (option === BROWSER_TIME_ZONE ? `${option} (${getTimeZone(DEFAULT_DATE_SETTINGS)})` : option)}
+            renderInput={(params) => <TextField {...params} label="Timezone" />}
+          />
+          <FormControl sx={{ minWidth: 180 }}>
+            <InputLabel>Day starts at</InputLabel>
+            <Select
+              value={dayStartHour}
+              label="Day starts at"
+              onChange={(e) => setDayStartHour(Number(e.target.value))}
+            >
+              {Array.from({ length: 12 }, (_, hour) => (
+                <MenuItem key={hour} value={hour}>{formatHour(hour)}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="contained" onClick={handleSave} disabled={unchanged || !!message}>
+            Save
+          </Button>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+}
@@ -39,9 +39,8 @@ export default function DebugPanel() {
     }
   };
 
-  const clearAllCache = () => {
-    localStorage.removeItem('googleSheetsMantras');
-    localStorage.removeItem('coreMantras');
+  const clearAllCache = async () => {
+    await mantraService.clearCache();
     setStatus('Cache cleared! Refresh the page to reload.');
   };
 
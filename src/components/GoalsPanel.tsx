@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Tooltip,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Archive as ArchiveIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { Goal, GoalType, MantraRecitation } from '../types';
+import { goalService } from '../services/goalService';
+import { Mantra } from '../services/mantraService';
+import { useMantras } from '../hooks/useMantras';
+import { GOAL_TYPE_LABELS, getGoalProgress, getGoalCompletions } from '../lib/goals';
+
+interface GoalsPanelProps {
+  recitations: MantraRecitation[];
+}
+
+const HISTORY_PREVIEW = 10;
+
+// Suggested target for a new goal, based on the mantra's traditional practice
+function suggestTarget(type: GoalType, mantra?: Mantra): number {
+  if (type === 'weekly-sessions') return 7;
+  const traditional = mantra?.targetRecitations || mantra?.traditionalCount;
+  if (type === 'lifetime-total') return traditional || 125000;
+  // Daily goals use the traditional count only when it's a sensible single-day amount
+  return traditional && traditional <= 1008 ? traditional : 108;
+}
+
+export default function GoalsPanel({ recitations }: GoalsPanelProps) {
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const mantras = useMantras();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+  const [formData, setFormData] = useState({ mantraName: '', type: 'daily-count' as GoalType, target: 108 });
+
+  useEffect(() => goalService.subscribe(setGoals), []);
+
+  // Library mantras plus free-text mantras that only appear in recitations
+  const mantraOptions = useMemo(() => {
+    const names = new Set(mantras.map(m => m.name));
+    recitations.forEach(r => names.add(r.mantraName));
+    return Array.from(names).sort((a, b) => a.localeCompare(b));
+  }, [mantras, recitations]);
+
+  const activeGoals = useMemo(() => goals.filter(g => !g.archivedAt), [goals]);
+
+  const progressById = useMemo(() => {
+    const progress = new Map<string, ReturnType<typeof getGoalProgress>>();
+    activeGoals.forEach(goal => progress.set(goal.id, getGoalProgress(goal, recitations)));
+    return progress;
+  }, [activeGoals, recitations]);
+
+  const history = useMemo(
+    () => goals
+      .flatMap(goal => getGoalCompletions(goal, recitations))
+      .sort((a, b) => b.completedOn.localeCompare(a.completedOn)),
+    [goals, recitations]
+  );
+
+  const findMantra = (name: string) => mantras.find(m => m.name === name);
+
+  const openDialog = () => {
+    const mantraName = mantraOptions[0] || '';
+    setFormData({ mantraName, type: 'daily-count', target: suggestTarget('daily-count', findMantra(mantraName)) });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.mantraName || formData.target <= 0) return;
+
+    const mantra = findMantra(formData.mantraName);
+    await goalService.addGoal({
+      mantraId: mantra?.id,
+      mantraName: formData.mantraName,
+      type: formData.type,
+      target: formData.target,
+    });
+    setDialogOpen(false);
+  };
+
+  const handleDelete = (goal: Goal) => {
+    if (window.confirm(`Delete the ${goal.mantraName} goal and its history?`)) {
+      goalService.deleteGoal(goal.id);
+    }
+  };
+
+  const describePeriod = (goal: Goal) => {
+    if (goal.type === 'daily-count') return 'today';
+    if (goal.type === 'weekly-sessions') return 'sessions this week';
+    return `since ${dayjs(goal.startDate).format('MMM D, YYYY')}`;
+  };
+
+  const describeProjection = (goal: Goal, projectedDate: string | null) => {
+    if (!projectedDate) {
+      return goal.type === 'lifetime-total' ? 'No recent practice to project from' : 'Behind your recent pace';
+    }
+    if (goal.type === 'daily-count') return 'On track for today at your usual pace';
+    return `Projected to complete ${dayjs(projectedDate).format('MMM D, YYYY')}`;
+  };
+
+  const describeCompletion = (goalType: GoalType, period: string) => {
+    if (goalType === 'daily-count') return dayjs(period).format('MMM D, YYYY');
+    if (goalType === 'weekly-sessions') return `Week of ${dayjs(period).format('MMM D, YYYY')}`;
+    return `Started ${dayjs(period).format('MMM D, YYYY')}`;
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" alignItems="center" justifyContent="space-between" mb={2}>
+          <Typography variant="h6">
+            Goals
+          </Typography>
+          <Button size="small" variant="contained" startIcon={<AddIcon />} onClick={openDialog}>
+            Add Goal
+          </Button>
+        </Box>
+
+        {activeGoals.length === 0 && (
+          <Typography variant="body2" color="textSecondary">
+            Set a daily count, weekly sessions or lifetime total for any mantra to track your progress.
+          </Typography>
+        )}
+
+        {activeGoals.map(goal => {
+          const progress = progressById.get(goal.id)!;
+          return (
+            <Box
+              key={goal.id}
+              sx={{ py: 1.5, borderBottom: '1px solid #eee', '&:last-child': { borderBottom: 'none' } }}
+            >
+              <Box display="flex" alignItems="center" justifyContent="space-between" gap={1}>
+                <Box display="flex" alignItems="center" gap={1} flexWrap="wrap">
+                  <Typography variant="subtitle1">{goal.mantraName}</Typography>
+                  <Chip label={GOAL_TYPE_LABELS[goal.type]} size="small" variant="outlined" />
+                  {progress.completed && <Chip label="Completed" size="small" color="success" />}
+                </Box>
+                <Box>
+                  <Tooltip title="Archive">
+                    <IconButton size="small" onClick={() => goalService.archiveGoal(goal.id)}>
+                      <ArchiveIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                  <Tooltip title="Delete">
+                    <IconButton size="small" onClick={() => handleDelete(goal)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                </Box>
+              </Box>
+              <LinearProgress
+                variant="determinate"
+                value={progress.percent}
+                color={progress.completed ? 'success' : 'primary'}
+                sx={{ height: 8, borderRadius: 4, my: 1 }}
+              />
+              <Box display="flex" justifyContent="space-between" flexWrap="wrap" gap={1}>
+                <Typography variant="body2">
+                  {progress.current.toLocaleString()} / {progress.target.toLocaleString()} {describePeriod(goal)}
+                  {' '}({progress.percent}%)
+                </Typography>
+                {!progress.completed && (
+                  <Typography variant="body2" color="textSecondary">
+                    {describeProjection(goal, progress.projectedDate)}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          );
+        })}
+
+        {history.length > 0 && (
+          <Box mt={3}>
+            <Typography variant="subtitle2" gutterBottom>
+              Completed ({history.length})
+            </Typography>
+            {(showAllHistory ? history : history.slice(0, HISTORY_PREVIEW)).map(completion => (
+              <Box
+                key={`${completion.goalId}-${completion.period}`}
+                display="flex"
+                justifyContent="space-between"
+                gap={1}
+                sx={{ py: 0.5 }}
+              >
+                <Typography variant="body2">
+                  {completion.mantraName} • {GOAL_TYPE_LABELS[completion.type]} of {completion.target.toLocaleString()}
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {describeCompletion(completion.type, completion.period)}
+                  {completion.type === 'lifetime-total' && ` • reached ${dayjs(completion.completedOn).format('MMM D, YYYY')}`}
+                </Typography>
+              </Box>
+            ))}
+            {history.length > HISTORY_PREVIEW && (
+              <Button size="small" onClick={() => setShowAllHistory(!showAllHistory)}>
+                {showAllHistory ? 'Show less' : `Show all ${history.length}`}
+              </Button>
+            )}
+          </Box>
+        )}
+
+        <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+          <form onSubmit={handleSubmit}>
+            <DialogTitle>Add Goal</DialogTitle>
+            <DialogContent>
+              <Box display="flex" flexDirection="column" gap={2} sx={{ mt: 1 }}>
+                <FormControl fullWidth>
+                  <InputLabel>Mantra</InputLabel>
+                  <Select
+                    value={formData.mantraName}
+                    label="Mantra"
+                    onChange={(e) => setFormData({
+                      ...formData,
+                      mantraName: e.target.value,
+                      target: suggestTarget(formData.type, findMantra(e.target.value)),
+                    })}
+                  >
+                    {mantraOptions.map(name => (
+                      <MenuItem key={name} value={name}>{name}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <FormControl fullWidth>
+                  <InputLabel>Goal type</InputLabel>
+                  <Select
+                    value={formData.type}
+                    label="Goal type"
+                    onChange={(e) => {
+                      const type = e.target.value as GoalType;
+                      setFormData({ ...formData, type, target: suggestTarget(type, findMantra(formData.mantraName)) });
+                    }}
+                  >
+                    <MenuItem value="daily-count">Daily count (repetitions per day)</MenuItem>
+                    <MenuItem value="weekly-sessions">Weekly sessions (recitations per week)</MenuItem>
+                    <MenuItem value="lifetime-total">Lifetime total (repetitions from today)</MenuItem>
+                  </Select>
+                </FormControl>
+                <TextField
+                  fullWidth
+                  label="Target"
+                  type="number"
+                  value={formData.target}
+                  onChange={(e) => setFormData({ ...formData, target: Number(e.target.value) })}
+                  inputProps={{ min: 1 }}
+                  required
+                />
+              </Box>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+              <Button type="submit" variant="contained" disabled={!formData.mantraName}>
+                Add Goal
+              </Button>
+            </DialogActions>
+          </form>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -13,6 +13,10 @@ import {
   List,
   ListItem,
   ListItemText,
+  FormControlLabel,
+  Switch,
+  Checkbox,
+  TextField,
 } from '@mui/material';
 import {
   Sync as SyncIcon,
@@ -22,6 +26,119 @@ import {
   Info as InfoIcon,
 } from '@mui/icons-material';
 import { mantraService } from '../services/mantraService';
+import { googleSheetsService, DEFAULT_TAB_SETTING, RECITATIONS_SHEET } from '../services/googleSheetsService';
+import { syncQueueService, SheetSyncStatus } from '../services/syncQueueService';
+import { SheetTabSetting } from '../types';
+import {
+  MANTRA_COLUMNS,
+  SheetImportIssue,
+  SheetImportReport,
+  SheetsRefresh,
+  isCleanImport,
+  isEmptyDiff,
+} from '../lib/sheetImport';
+
+const formatIssue = (issue: SheetImportIssue) =>
+  `${issue.sheet}, row ${issue.row}: ${issue.column ? `${issue.column}: ` : ''}${issue.message}`;
+
+function IssueList({ title, issues }: { title: string; issues: string[] }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <Box>
+      <Typography variant="subtitle2">
+        {title} ({issues.length})
+      </Typography>
+      <List dense sx={{ maxHeight: 200, overflow: 'auto' }}>
+        {issues.map((issue, index) => (
+          <ListItem key={index} disableGutters>
+            <ListItemText primary={issue} primaryTypographyProps={{ variant: 'body2' }} />
+          </ListItem>
+        ))}
+      </List>
+    </Box>
+  );
+}
+
+// What the last sync imported, and every row, value and column it had to leave out
+function ImportReport({ report, onClose }: { report: SheetImportReport; onClose: () => void }) {
+  const clean = isCleanImport(report);
+  const summary = [
+    report.skippedRows.length > 0 && `${report.skippedRows.length} rows skipped`,
+    report.typeErrors.length > 0 && `${report.typeErrors.length} values ignored`,
+    report.unknownColumns.length > 0 && `${report.unknownColumns.length} unknown columns`,
+    report.sheetErrors.length > 0 && `${report.sheetErrors.length} sheets not read`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <Alert severity={clean ? 'success' : 'warning'} onClose={onClose}>
+      <Typography variant="body2" gutterBottom={!clean}>
+        Imported {report.imported} mantras from {report.sheets.length} sheet(s).{summary && ` ${summary}.`}
+      </Typography>
+      {!clean && (
+        <Stack spacing={1}>
+          <IssueList
+            title="Sheets not read"
+            issues={report.sheetErrors.map(error => `${error.sheet}: ${error.message}`)}
+          />
+          <IssueList title="Skipped rows" issues={report.skippedRows.map(formatIssue)} />
+          <IssueList title="Ignored values" issues={report.typeErrors.map(formatIssue)} />
+          {report.unknownColumns.length > 0 && (
+            <Box>
+              <Typography variant="subtitle2">
+                Unknown columns ({report.unknownColumns.length})
+              </Typography>
+              <Typography variant="caption" component="div" sx={{ mb: 1 }}>
+                These columns were ignored. Check their spelling against the expected format below.
+              </Typography>
+              <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap>
+                {report.unknownColumns.map(({ sheet, column }) => (
+                  <Chip key={`${sheet}-${column}`} label={`${sheet}: ${column}`} size="small" variant="outlined" />
+                ))}
+              </Stack>
+            </Box>
+          )}
+        </Stack>
+      )}
+    </Alert>
+  );
+}
+
+// Mantras the last refresh added, removed or changed
+function RefreshChanges({ refresh }: { refresh: SheetsRefresh }) {
+  const { diff, unchangedSheets } = refresh;
+  const unchanged = unchangedSheets.length > 0
+    ? ` ${unchangedSheets.length} unchanged tab(s) skipped.`
+    : '';
+
+  // Refreshes saved before IDs were reconciled have no idChanges
+  const reconciled = Object.keys(diff.idChanges || {}).length;
+
+  if (isEmptyDiff(diff)) {
+    return (
+      <Alert severity="info">
+        No mantra changes since the previous refresh.{unchanged}
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert severity="info">
+      <Typography variant="body2" gutterBottom>
+        {diff.added.length} added, {diff.removed.length} removed, {diff.changed.length} changed.{unchanged}
+        {reconciled > 0 && ` History and goals were moved to the new IDs of ${reconciled} mantra(s).`}
+      </Typography>
+      <Stack spacing={1}>
+        <IssueList title="Added" issues={diff.added.map(mantra => `${mantra.name} (${mantra.category})`)} />
+        <IssueList title="Removed" issues={diff.removed.map(mantra => `${mantra.name} (${mantra.category})`)} />
+        <IssueList
+          title="Changed"
+          issues={diff.changed.map(change => `${change.after.name}: ${change.fields.join(', ')}`)}
+        />
+      </Stack>
+    </Alert>
+  );
+}
 
 interface GoogleSheetsSyncProps {
   onSyncComplete?: () => void;
@@ -35,7 +152,12 @@ const GoogleSheetsSync: React.FC<GoogleSheetsSyncProps> = ({ onSyncComplete }) =
   const [message, setMessage] = useState<string>('');
   const [messageType, setMessageType] = useState<'success' | 'error' | 'info'>('info');
   const [sheetNames, setSheetNames] = useState<string[]>([]);
-  const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [tabSettings, setTabSettings] = useState<Record<string, SheetTabSetting>>(() => googleSheetsService.getTabSettings());
+  const [lastRefresh, setLastRefresh] = useState<SheetsRefresh | null>(null);
+  const [dismissedRefreshAt, setDismissedRefreshAt] = useState<number | null>(null);
+  const [writerName, setWriterName] = useState(() => googleSheetsService.getWriteBackSettings().name);
+  const [sheetStatus, setSheetStatus] = useState<SheetSyncStatus | null>(null);
+  const [isUpdatingWriteBack, setIsUpdatingWriteBack] = useState(false);
 
   useEffect(() => {
     const enabled = mantraService.isGoogleSheetsEnabled();
@@ -45,8 +167,37 @@ const GoogleSheetsSync: React.FC<GoogleSheetsSyncProps> = ({ onSyncComplete }) =
       const sheetsService = mantraService.getGoogleSheetsService();
       setIsConnected(sheetsService.isSignedIn());
     }
+
+    const unsubscribeStatus = syncQueueService.subscribe(status => setSheetStatus(status.sheets));
+    // Background refreshes update the library, so pick up what they changed too
+    const unsubscribeMantras = mantraService.subscribe(() => {
+      mantraService.getLastSheetsRefresh().then(setLastRefresh);
+    });
+
+    return () => {
+      unsubscribeStatus();
+      unsubscribeMantras();
+    };
   }, []);
 
+  // List the tabs when already signed in from an earlier visit to this page
+  useEffect(() => {
+    if (isConnected && sheetNames.length === 0) {
+      googleSheetsService.getSheetNames()
+        .then(setSheetNames)
+        .catch(error => console.error('Error loading sheet tabs:', error));
+    }
+  }, [isConnected, sheetNames.length]);
+
+  // Tab choices are saved as they are made and take effect on the next sync
+  const updateTabSetting = (name: string, updates: Partial<SheetTabSetting>) => {
+    const next = { ...tabSettings, [name]: { ...(tabSettings[name] || DEFAULT_TAB_SETTING), ...updates } };
+    setTabSettings(next);
+    googleSheetsService.saveTabSettings(next);
+  };
+
+  const mantraTabs = sheetNames.filter(name => name !== RECITATIONS_SHEET);
+
   const handleConnect = async () => {
     setIsTesting(true);
     setMessage('');
@@ -76,14 +227,10 @@ const GoogleSheetsSync: React.FC<GoogleSheetsSyncProps> = ({ onSyncComplete }) =
     setMessage('');
 
     try {
-      const success = await mantraService.refreshGoogleSheets();
+      const refresh = await mantraService.refreshGoogleSheets();
 
-      if (success) {
-        const mantras = await mantraService.getAllMantras();
-        const gsMantraCount = mantras.filter(m => m.id.startsWith('gsheet-')).length;
-        setMessage(`Successfully synced ${gsMantraCount} mantras from Google Sheets!`);
-        setMessageType('success');
-        setLastSyncTime(new Date());
+      if (refresh) {
+        setLastRefresh(refresh);
         if (onSyncComplete) {
           onSyncComplete();
         }
@@ -99,6 +246,40 @@ const GoogleSheetsSync: React.FC<GoogleSheetsSyncProps> = ({ onSyncComplete }) =
     }
   };
 
+  // Wraps write-back actions that may open the Google sign-in popup
+  const runWriteBackAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsUpdatingWriteBack(true);
+    setMessage('');
+
+    try {
+      await action();
+      setIsConnected(googleSheetsService.isSignedIn());
+      setMessage(successMessage);
+      setMessageType('success');
+    } catch (error: any) {
+      setMessage(error.message || error.error || 'Failed to update sheet write-back');
+      setMessageType('error');
+    } finally {
+      setIsUpdatingWriteBack(false);
+    }
+  };
+
+  const handleWriteBackToggle = (enabled: boolean) => {
+    runWriteBackAction(
+      () => syncQueueService.setSheetWriteBack({ enabled, name: writerName.trim() }),
+      enabled
+        ? 'Recitations you log or change from now on will be written to the "Recitations" sheet.'
+        : 'Stopped writing recitations to the sheet.'
+    );
+  };
+
+  const handleWriterNameBlur = () => {
+    const settings = googleSheetsService.getWriteBackSettings();
+    if (settings.name !== writerName.trim()) {
+      googleSheetsService.saveWriteBackSettings({ ...settings, name: writerName.trim() });
+    }
+  };
+
   const handleDisconnect = () => {
     const sheetsService = mantraService.getGoogleSheetsService();
     sheetsService.signOut();
@@ -166,6 +347,13 @@ REACT_APP_GOOGLE_SHEET_ID=your_sheet_id`}
             </Alert>
           )}
 
+          {lastRefresh && lastRefresh.at !== dismissedRefreshAt && (
+            <>
+              <RefreshChanges refresh={lastRefresh} />
+              <ImportReport report={lastRefresh.report} onClose={() => setDismissedRefreshAt(lastRefresh.at)} />
+            </>
+          )}
+
           {!isConnected ? (
             <Box>
               <Typography variant="body2" color="text.secondary" gutterBottom>
@@ -187,29 +375,50 @@ REACT_APP_GOOGLE_SHEET_ID=your_sheet_id`}
                 <Typography variant="body2" color="text.secondary" gutterBottom>
                   Your Google Sheet is connected and ready to sync.
                 </Typography>
-                {lastSyncTime && (
+                {lastRefresh && (
                   <Typography variant="caption" color="text.secondary">
-                    Last synced: {lastSyncTime.toLocaleString()}
+                    Last synced: {new Date(lastRefresh.at).toLocaleString()}
                   </Typography>
                 )}
               </Box>
 
-              {sheetNames.length > 0 && (
+              {mantraTabs.length > 0 && (
                 <>
                   <Divider />
                   <Box>
                     <Typography variant="subtitle2" gutterBottom>
-                      Available Sheets:
+                      Tabs to Sync
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" component="div">
+                      Rows without a Category are filed under the tab's default category. Changes apply on the next sync.
                     </Typography>
                     <List dense>
-                      {sheetNames.map((name, index) => (
-                        <ListItem key={index}>
-                          <ListItemText
-                            primary={name}
-                            secondary={index === 0 ? 'Reading from this sheet' : ''}
-                          />
-                        </ListItem>
-                      ))}
+                      {mantraTabs.map(name => {
+                        const setting = tabSettings[name] || DEFAULT_TAB_SETTING;
+                        return (
+                          <ListItem key={name} disableGutters>
+                            <Checkbox
+                              edge="start"
+                              checked={setting.sync}
+                              onChange={(e) => updateTabSetting(name, { sync: e.target.checked })}
+                            />
+                            <ListItemText
+                              primary={name}
+                              secondary={setting.sync ? 'Synced' : 'Not synced'}
+                              sx={{ mr: 2 }}
+                            />
+                            <TextField
+                              label="Default category"
+                              size="small"
+                              placeholder="Other"
+                              value={setting.defaultCategory}
+                              disabled={!setting.sync}
+                              onChange={(e) => updateTabSetting(name, { defaultCategory: e.target.value })}
+                              sx={{ width: 200 }}
+                            />
+                          </ListItem>
+                        );
+                      })}
                     </List>
                   </Box>
                 </>
@@ -228,11 +437,9 @@ REACT_APP_GOOGLE_SHEET_ID=your_sheet_id`}
                 </Button>
                 <Button
                   variant="outlined"
-                  onClick={() => {
-                    // Clear all mantra caches
-                    localStorage.removeItem('coreMantras');
-                    localStorage.removeItem('googleSheetsMantras');
-                    localStorage.removeItem('mantraRecitations');
+                  onClick={async () => {
+                    // Clear the mantra caches only; recitation history is user data, not cache
+                    await mantraService.clearCache();
                     setMessage('Cache cleared! Reloading page...');
                     setMessageType('info');
                     // Reload page to refresh data
@@ -260,13 +467,95 @@ REACT_APP_GOOGLE_SHEET_ID=your_sheet_id`}
                   <br />
                   Each sheet should have these column headers (case-insensitive):
                   <br />
-                  <strong>Mantra</strong> (required), <strong>Gurmukhi</strong>, <strong>Category</strong>,
-                  <strong>Optimal Time</strong>, <strong>Optionality</strong>, <strong>Target Recitations</strong>,
-                  <strong>Guru Authorship</strong>, <strong>Guru Number</strong>, <strong>Significance</strong>
+                  {MANTRA_COLUMNS.map((column, index) => (
+                    <React.Fragment key={column.field}>
+                      {index > 0 && ', '}
+                      <strong>{column.header}</strong>
+                      {column.required && ' (required)'}
+                      {column.type === 'integer' && column.max !== undefined && ` (${column.min}-${column.max})`}
+                      {column.choices && ` (${column.choices.join(' / ')})`}
+                    </React.Fragment>
+                  ))}
                 </Typography>
               </Alert>
             </>
           )}
+
+          <Divider />
+
+          <Box>
+            <Typography variant="subtitle2" gutterBottom>
+              Practice Log Sheet
+            </Typography>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              Also write each recitation to a "Recitations" tab in the shared sheet so sangat coordinators
+              can follow everyone's practice. This needs permission to edit the sheet.
+            </Typography>
+            <Stack direction="row" spacing={2} alignItems="center" flexWrap="wrap" sx={{ mt: 1 }}>
+              <TextField
+                label="Your name in the sheet"
+                size="small"
+                value={writerName}
+                onChange={(e) => setWriterName(e.target.value)}
+                onBlur={handleWriterNameBlur}
+              />
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={!!sheetStatus?.enabled}
+                    onChange={(e) => handleWriteBackToggle(e.target.checked)}
+                    disabled={isUpdatingWriteBack}
+                  />
+                }
+                label="Write recitations to the sheet"
+              />
+            </Stack>
+
+            {sheetStatus?.enabled && (
+              <Stack spacing={1} sx={{ mt: 2 }}>
+                <Stack direction="row" spacing={1} flexWrap="wrap">
+                  <Chip
+                    label={sheetStatus.syncing ? 'Writing...' : `${sheetStatus.pending} pending`}
+                    color={sheetStatus.pending > 0 ? 'warning' : 'default'}
+                    size="small"
+                  />
+                  {sheetStatus.failed > 0 && (
+                    <Chip label={`${sheetStatus.failed} failed`} color="error" size="small" />
+                  )}
+                  {sheetStatus.lastSuccessfulSync && (
+                    <Typography variant="caption" color="text.secondary">
+                      Last written: {new Date(sheetStatus.lastSuccessfulSync).toLocaleString()}
+                    </Typography>
+                  )}
+                </Stack>
+                {sheetStatus.lastError && (
+                  <Alert severity="error">{sheetStatus.lastError}</Alert>
+                )}
+                <Stack direction="row" spacing={2}>
+                  {sheetStatus.needsSignIn && (
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      disabled={isUpdatingWriteBack}
+                      onClick={() => runWriteBackAction(() => syncQueueService.resumeSheetSync(), 'Signed in, resuming sheet sync.')}
+                    >
+                      Sign in to resume
+                    </Button>
+                  )}
+                  {sheetStatus.failed > 0 && (
+                    <Button
+                      variant="outlined"
+                      size="small"
+                      disabled={isUpdatingWriteBack}
+                      onClick={() => runWriteBackAction(() => syncQueueService.retrySheetFailures(), 'Retrying failed rows.')}
+                    >
+                      Retry failed
+                    </Button>
+                  )}
+                </Stack>
+              </Stack>
+            )}
+          </Box>
         </Stack>
       </CardContent>
     </Card>
@@ -11,11 +11,19 @@ import {
 } from '@mui/material';
 import RecitationLogger from './RecitationLogger';
 import MetricsDashboard from './MetricsDashboard';
+import RecitationHistory from './RecitationHistory';
+import MantraManagement from './MantraManagement';
+import DailyBanis from './DailyBanis';
+import RecitationImport from './RecitationImport';
+import BackupRestore from './BackupRestore';
+import DaySettings from './DaySettings';
 import ApiTest from './ApiTest';
 import DebugPanel from './DebugPanel';
+import SyncFailures from './SyncFailures';
 import { MantraRecitation } from '../types';
 import { mantraService } from '../services/mantraService';
-import { syncQueueService } from '../services/syncQueueService';
+import { syncQueueService, SheetSyncStatus } from '../services/syncQueueService';
+import { recitationService } from '../services/recitationService';
 // import logo from '../assets/your-image.png'; // Uncomment and update path
 
 interface TabPanelProps {
@@ -45,52 +53,98 @@ export default function MantraApp() {
   const [recitations, setRecitations] = useState<MantraRecitation[]>([]);
   const [backendStatus, setBackendStatus] = useState<'connecting' | 'connected' | 'disconnected'>('connecting');
   const [syncPending, setSyncPending] = useState(0);
+  const [syncFailed, setSyncFailed] = useState(0);
+  const [sheetStatus, setSheetStatus] = useState<SheetSyncStatus | null>(null);
 
   useEffect(() => {
-    const savedRecitations = localStorage.getItem('mantraRecitations');
-    if (savedRecitations) {
-      setRecitations(JSON.parse(savedRecitations));
-    }
+    // Keep local history in sync with sync acknowledgements
+    const unsubscribeRecitations = recitationService.subscribe(setRecitations);
 
-    // Test backend connection
+    // Test backend connection, then pull history logged on other devices
     mantraService.testConnection()
       .then(isConnected => {
         setBackendStatus(isConnected ? 'connected' : 'disconnected');
+        if (isConnected) {
+          pullRecitations();
+        }
       })
       .catch(() => {
         setBackendStatus('disconnected');
       });
 
     // Start auto-sync
-    syncQueueService.startAutoSync(30000); // Sync every 30 seconds
+    syncQueueService.startAutoSync(); // Syncs on new items, backoff timers and online/visibility changes
 
     // Subscribe to sync status changes
     const unsubscribe = syncQueueService.subscribe((status) => {
       setSyncPending(status.pending);
+      setSyncFailed(status.deadLetter.length);
+      setSheetStatus(status.sheets);
     });
 
+    // Pull again whenever the tab comes back into view
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        pullRecitations();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     // Cleanup on unmount
     return () => {
       syncQueueService.stopAutoSync();
       unsubscribe();
+      unsubscribeRecitations();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
   }, []);
 
+  const pullRecitations = () => {
+    recitationService.pullFromServer()
+      .then(merged => {
+        if (merged > 0) {
+          console.log(`Merged ${merged} recitations from the backend`);
+        }
+      })
+      .catch(error => console.error('Error pulling recitations:', error));
+  };
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
-  const addRecitation = (recitation: Omit<MantraRecitation, 'id'>) => {
-    const newRecitation: MantraRecitation = {
-      ...recitation,
-      id: Date.now().toString(),
-    };
-    const updatedRecitations = [...recitations, newRecitation];
-    setRecitations(updatedRecitations);
-    localStorage.setItem('mantraRecitations', JSON.stringify(updatedRecitations));
+  const addRecitation = async (recitation: Omit<MantraRecitation, 'id'>) => {
+    try {
+      const newRecitation = await recitationService.addRecitation(recitation);
 
-    // Queue for backend sync (works offline)
-    syncQueueService.queueRecitation(recitation);
+      // Queue for backend sync (works offline)
+      await syncQueueService.queueRecitation(newRecitation);
+    } catch (error) {
+      console.error('Error saving recitation:', error);
+    }
+  };
+
+  const editRecitation = async (id: string, updates: Partial<Omit<MantraRecitation, 'id'>>) => {
+    try {
+      const updated = await recitationService.updateRecitation(id, { ...updates, syncState: 'pending' });
+      if (updated) {
+        await syncQueueService.queueRecitation(updated, 'update');
+      }
+    } catch (error) {
+      console.error('Error updating recitation:', error);
+    }
+  };
+
+  const deleteRecitation = async (id: string) => {
+    try {
+      const recitation = recitations.find(r => r.id === id);
+      if (!recitation) return;
+
+      await syncQueueService.queueRecitation(recitation, 'delete');
+      await recitationService.deleteRecitation(id);
+    } catch (error) {
+      console.error('Error deleting recitation:', error);
+    }
   };
 
   return (
@@ -109,6 +163,22 @@ export default function MantraApp() {
                 size="small"
               />
             )}
+            {syncFailed > 0 && (
+              <Chip
+                label={`${syncFailed} failed`}
+                color="error"
+                size="small"
+              />
+            )}
+            {sheetStatus?.enabled && (sheetStatus.pending > 0 || sheetStatus.failed > 0) && (
+              <Chip
+                label={sheetStatus.failed > 0
+                  ? `${sheetStatus.failed} sheet rows failed`
+                  : `${sheetStatus.pending} pending for sheet${sheetStatus.needsSignIn ? ' (sign in)' : ''}`}
+                color={sheetStatus.failed > 0 ? 'error' : 'warning'}
+                size="small"
+              />
+            )}
             {/* Backend Connection Status */}
             <Chip
               label={backendStatus === 'connecting' ? 'Connecting...' : backendStatus === 'connected' ? 'Backend Connected' : 'Backend Offline'}
@@ -130,9 +200,13 @@ export default function MantraApp() {
       
       <Container maxWidth="lg">
         <Box sx={{ borderBottom: 1, borderColor: 'divider', mt: 2 }}>
-          <Tabs value={tabValue} onChange={handleTabChange}>
+          <Tabs value={tabValue} onChange={handleTabChange} variant="scrollable" scrollButtons="auto">
             <Tab label="Log Recitation" />
+            <Tab label="Daily Banis" />
             <Tab label="Metrics & Analytics" />
+            <Tab label="History" />
+            <Tab label="Library" />
+            <Tab label="Data" />
             <Tab label="API Test" />
             <Tab label="Debug" />
           </Tabs>
@@ -140,17 +214,44 @@ export default function MantraApp() {
 
         <TabPanel value={tabValue} index={0}>
           <RecitationLogger onAddRecitation={addRecitation} />
+          <SyncFailures />
         </TabPanel>
 
         <TabPanel value={tabValue} index={1}>
-          <MetricsDashboard recitations={recitations} />
+          <DailyBanis />
         </TabPanel>
 
         <TabPanel value={tabValue} index={2}>
-          <ApiTest />
+          <MetricsDashboard
+            recitations={recitations}
+            onEditRecitation={editRecitation}
+            onDeleteRecitation={deleteRecitation}
+          />
         </TabPanel>
 
         <TabPanel value={tabValue} index={3}>
+          <RecitationHistory
+            recitations={recitations}
+            onEditRecitation={editRecitation}
+            onDeleteRecitation={deleteRecitation}
+          />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={4}>
+          <MantraManagement />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={5}>
+          <RecitationImport recitations={recitations} />
+          <BackupRestore />
+          <DaySettings />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={6}>
+          <ApiTest />
+        </TabPanel>
+
+        <TabPanel value={tabValue} index={7}>
           <DebugPanel />
         </TabPanel>
       </Container>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   Card,
   CardContent,
@@ -26,8 +26,6 @@ import {
   Accordion,
   AccordionSummary,
   AccordionDetails,
-  Checkbox,
-  Paper,
 } from '@mui/material';
 import {
   Add as AddIcon,
@@ -37,25 +35,12 @@ import {
   ExpandMore as ExpandMoreIcon,
 } from '@mui/icons-material';
 import { mantraService, Mantra } from '../services/mantraService';
-import WheelTimer from './WheelTimer';
-import { mantraCategories, dailyBanis, getDefaultCountForMantra } from '../constants/mantraCategories';
+import { mantraCategories, getDefaultCountForMantra } from '../constants/mantraCategories';
 import GoogleSheetsSync from './GoogleSheetsSync';
+import { useMantras } from '../hooks/useMantras';
 
-interface MantraManagementProps {
-  onMantraAdded?: () => void;
-}
-
-// Bani tracking interface
-interface BaniSession {
-  bani: string;
-  completed: boolean;
-  startTime: string;
-  endTime: string;
-  date: string;
-}
-
-export default function MantraManagement({ onMantraAdded }: MantraManagementProps) {
-  const [mantras, setMantras] = useState<Mantra[]>([]);
+export default function MantraManagement() {
+  const mantras = useMantras();
   const [open, setOpen] = useState(false);
   const [editingMantra, setEditingMantra] = useState<Mantra | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string>('Banis');
@@ -69,55 +54,6 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
     submittedBy: '',
   });
   const [submitStatus, setSubmitStatus] = useState<'idle' | 'submitting' | 'success' | 'error'>('idle');
-  
-  // Bani tracking state
-  const [baniSessions, setBaniSessions] = useState<BaniSession[]>([]);
-  const [showBaniTimer, setShowBaniTimer] = useState<string | null>(null);
-
-  useEffect(() => {
-    loadMantras();
-    loadBaniSessions();
-  }, []);
-
-  const loadBaniSessions = () => {
-    const today = new Date().toISOString().split('T')[0];
-    const savedSessions = localStorage.getItem(`baniSessions_${today}`);
-    if (savedSessions) {
-      setBaniSessions(JSON.parse(savedSessions));
-    } else {
-      // Initialize today's sessions
-      const initialSessions: BaniSession[] = dailyBanis.map(bani => ({
-        bani,
-        completed: false,
-        startTime: '06:00 AM',
-        endTime: '06:30 AM',
-        date: today
-      }));
-      setBaniSessions(initialSessions);
-    }
-  };
-
-  const saveBaniSessions = (sessions: BaniSession[]) => {
-    const today = new Date().toISOString().split('T')[0];
-    localStorage.setItem(`baniSessions_${today}`, JSON.stringify(sessions));
-    setBaniSessions(sessions);
-  };
-
-  const updateBaniSession = (bani: string, updates: Partial<BaniSession>) => {
-    const updatedSessions = baniSessions.map(session =>
-      session.bani === bani ? { ...session, ...updates } : session
-    );
-    saveBaniSessions(updatedSessions);
-  };
-
-  const toggleBaniCompletion = (bani: string) => {
-    updateBaniSession(bani, { completed: !baniSessions.find(s => s.bani === bani)?.completed });
-  };
-
-  const loadMantras = async () => {
-    const allMantras = await mantraService.getAllMantras();
-    setMantras(allMantras);
-  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -138,17 +74,13 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
           submittedBy: formData.submittedBy || undefined,
         };
         
-        // Update in local storage
-        const userMantras = mantraService.getUserMantras();
-        const updatedMantras = userMantras.map(m => 
-          m.id === editingMantra.id ? updatedMantra : m
-        );
-        localStorage.setItem('userMantras', JSON.stringify(updatedMantras));
+        // Update in the local database
+        await mantraService.updateUserMantra(updatedMantra);
         
         setSubmitStatus('success');
       } else {
         // Add new mantra
-        const newMantra = mantraService.addUserMantra({
+        const newMantra = await mantraService.addUserMantra({
           name: formData.name,
           sanskrit: formData.sanskrit || undefined,
           gurmukhi: formData.gurmukhi || undefined,
@@ -164,7 +96,7 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
         setSubmitStatus(submitted ? 'success' : 'idle');
       }
 
-      // Reset form and reload
+      // Reset form
       setFormData({
         name: '',
         sanskrit: '',
@@ -176,8 +108,6 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
       });
       setEditingMantra(null);
       setOpen(false);
-      await loadMantras();
-      onMantraAdded?.();
 
       setTimeout(() => setSubmitStatus('idle'), 3000);
     } catch (error) {
@@ -202,10 +132,7 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
   };
 
   const handleDelete = async (id: string) => {
-    if (mantraService.deleteUserMantra(id)) {
-      await loadMantras();
-      onMantraAdded?.();
-    }
+    await mantraService.deleteUserMantra(id);
   };
 
   const handleAddNew = () => {
@@ -269,7 +196,7 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
 
         {/* Google Sheets Sync */}
         <Box sx={{ mb: 3 }}>
-          <GoogleSheetsSync onSyncComplete={loadMantras} />
+          <GoogleSheetsSync />
         </Box>
 
         {/* Category Tabs */}
@@ -292,96 +219,8 @@ export default function MantraManagement({ onMantraAdded }: MantraManagementProp
 
         {/* Display selected category */}
         <Box>
-          {selectedCategory === 'Banis' && (
-            <Box>
-              <Typography variant="h6" gutterBottom>
-                Daily Banis Tracker
-              </Typography>
-              <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
-                Track your daily Bani recitations with precise start and end times
-              </Typography>
-
-              {/* Daily Banis List */}
-              <List>
-                {baniSessions.map((session) => (
-                  <ListItem key={session.bani} sx={{ 
-                    border: 1, 
-                    borderColor: 'divider', 
-                    borderRadius: 1, 
-                    mb: 1,
-                    backgroundColor: session.completed ? 'success.light' : 'background.paper'
-                  }}>
-                    <Checkbox
-                      checked={session.completed}
-                      onChange={() => toggleBaniCompletion(session.bani)}
-                      sx={{ mr: 2 }}
-                    />
-                    <ListItemText
-                      primary={
-                        <Typography variant="subtitle1" sx={{ 
-                          textDecoration: session.completed ? 'line-through' : 'none',
-                          fontWeight: session.completed ? 'normal' : 'medium'
-                        }}>
-                          {session.bani}
-                        </Typography>
-                      }
-                      secondary={
-                        session.completed 
-                          ? `Completed: ${session.startTime} - ${session.endTime}`
-                          : `Planned: ${session.startTime} - ${session.endTime}`
-                      }
-                    />
-                    <ListItemSecondaryAction>
-                      <Button
-                        size="small"
-                        variant={showBaniTimer === session.bani ? "contained" : "outlined"}
-                        onClick={() => setShowBaniTimer(showBaniTimer === session.bani ? null : session.bani)}
-                      >
-                        Set Times
-                      </Button>
-                    </ListItemSecondaryAction>
-                  </ListItem>
-                ))}
-              </List>
-
-              {/* Timer Interface */}
-              {showBaniTimer && (
-                <Paper elevation={2} sx={{ p: 3, mt: 2 }}>
-                  <Typography variant="h6" gutterBottom>
-                    Set Times for {showBaniTimer}
-                  </Typography>
-                  <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
-                    <Box sx={{ flex: '1 1 300px' }}>
-                      <WheelTimer
-                        label="Start Time"
-                        value={baniSessions.find(s => s.bani === showBaniTimer)?.startTime || '06:00 AM'}
-                        onChange={(time) => updateBaniSession(showBaniTimer, { startTime: time })}
-                      />
-                    </Box>
-                    <Box sx={{ flex: '1 1 300px' }}>
-                      <WheelTimer
-                        label="End Time"
-                        value={baniSessions.find(s => s.bani === showBaniTimer)?.endTime || '06:30 AM'}
-                        onChange={(time) => updateBaniSession(showBaniTimer, { endTime: time })}
-                      />
-                    </Box>
-                  </Box>
-                  <Box sx={{ mt: 2, display: 'flex', justifyContent: 'flex-end' }}>
-                    <Button 
-                      variant="contained" 
-                      onClick={() => setShowBaniTimer(null)}
-                    >
-                      Done
-                    </Button>
-                  </Box>
-                </Paper>
-              )}
-            </Box>
-          )}
-
-          {/* Other categories (Japji Paurees, Assorted Mantras) */}
           {Object.entries(mantraCategories).map(([categoryKey, config]) => (
-            selectedCategory === categoryKey && categoryKey !== 'Banis' && (
+            selectedCategory === categoryKey && (
               <Box key={categoryKey}>
                 <Typography variant="h6" gutterBottom>
                   {config.name}
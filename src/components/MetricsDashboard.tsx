@@ -1,10 +1,20 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Card,
   CardContent,
   Typography,
   Box,
+  Chip,
+  IconButton,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
 } from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+} from '@mui/icons-material';
 import {
   LineChart,
   Line,
@@ -17,17 +27,47 @@ import {
   PieChart,
   Pie,
   Cell,
+  BarChart,
+  Bar,
 } from 'recharts';
-import { MantraRecitation, MantraStats, DailyStats } from '../types';
+import { MantraRecitation, MantraStats, DailyStats, RecitationSyncState } from '../types';
 import dayjs from 'dayjs';
+import { computeStreakStats, getDailyStats, getWeeklyPractice, GRACE_DAYS_KEY } from '../lib/streaks';
+import RecitationEditDialog from './RecitationEditDialog';
+import PracticeHeatmap from './PracticeHeatmap';
+import GoalsPanel from './GoalsPanel';
 
 interface MetricsDashboardProps {
   recitations: MantraRecitation[];
+  onEditRecitation?: (id: string, updates: Partial<Omit<MantraRecitation, 'id'>>) => void;
+  onDeleteRecitation?: (id: string) => void;
 }
 
 const COLORS = ['#6b46c1', '#ec4899', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
 
-export default function MetricsDashboard({ recitations }: MetricsDashboardProps) {
+const WEEKS_SHOWN = 12;
+
+const SYNC_STATE_CHIPS: Record<RecitationSyncState, { label: string; color: 'success' | 'warning' | 'error' }> = {
+  synced: { label: 'Synced', color: 'success' },
+  pending: { label: 'Pending', color: 'warning' },
+  failed: { label: 'Sync failed', color: 'error' },
+};
+
+export default function MetricsDashboard({ recitations, onEditRecitation, onDeleteRecitation }: MetricsDashboardProps) {
+  const [editingRecitation, setEditingRecitation] = useState<MantraRecitation | null>(null);
+  const [graceDays, setGraceDays] = useState<number>(() => Number(localStorage.getItem(GRACE_DAYS_KEY)) || 0);
+
+  const handleGraceDaysChange = (value: number) => {
+    setGraceDays(value);
+    localStorage.setItem(GRACE_DAYS_KEY, String(value));
+  };
+
+  const handleDelete = (recitation: MantraRecitation) => {
+    if (onDeleteRecitation && window.confirm(`Delete this ${recitation.mantraName} recitation?`)) {
+      onDeleteRecitation(recitation.id);
+    }
+  };
+
   const stats: MantraStats = useMemo(() => {
     if (recitations.length === 0) {
       return {
@@ -37,6 +77,9 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
         averageCount: 0,
         averageDuration: 0,
         mostRecitedMantra: '',
+        currentStreak: 0,
+        longestStreak: 0,
+        mantraStreaks: {},
       };
     }
 
@@ -55,6 +98,8 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
       { mantra: '', count: 0 }
     ).mantra;
 
+    const streaks = computeStreakStats(recitations, { graceDays });
+
     return {
       totalRecitations,
       totalCount,
@@ -62,28 +107,28 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
       averageCount: Math.round(totalCount / totalRecitations),
       averageDuration: recitationsWithDuration > 0 ? Math.round(totalDuration / recitationsWithDuration) : 0,
       mostRecitedMantra,
+      currentStreak: streaks.overall.current,
+      longestStreak: streaks.overall.longest,
+      mantraStreaks: streaks.byMantra,
     };
-  }, [recitations]);
+  }, [recitations, graceDays]);
 
-  const dailyStats: DailyStats[] = useMemo(() => {
-    const dailyData = recitations.reduce((acc, r) => {
-      // Skip recitations without timestamp
-      if (!r.timestamp) {
-        return acc;
-      }
-
-      const date = dayjs(r.timestamp).format('YYYY-MM-DD');
-      if (!acc[date]) {
-        acc[date] = { date, count: 0, duration: 0, recitations: 0 };
-      }
-      acc[date].count += r.count;
-      acc[date].duration += (r.duration || 0);
-      acc[date].recitations += 1;
-      return acc;
-    }, {} as Record<string, DailyStats>);
+  const dailyStats: DailyStats[] = useMemo(() => getDailyStats(recitations, graceDays), [recitations, graceDays]);
 
-    return Object.values(dailyData).sort((a, b) => a.date.localeCompare(b.date));
-  }, [recitations]);
+  const weeklyPractice = useMemo(
+    () => getWeeklyPractice(recitations, WEEKS_SHOWN).map(week => ({
+      ...week,
+      label: dayjs(week.weekStart).format('MMM D'),
+    })),
+    [recitations]
+  );
+
+  const mantraStreakList = useMemo(
+    () => Object.entries(stats.mantraStreaks)
+      .map(([name, streak]) => ({ name, ...streak }))
+      .sort((a, b) => b.current - a.current || b.longest - a.longest),
+    [stats.mantraStreaks]
+  );
 
   const mantraDistribution = useMemo(() => {
     const distribution = recitations.reduce((acc, r) => {
@@ -154,6 +199,123 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
         </Box>
       </Box>
 
+      {/* Goals */}
+      <Box mb={3}>
+        <GoalsPanel recitations={recitations} />
+      </Box>
+
+      {/* Streaks & Consistency */}
+      <Box display="flex" flexWrap="wrap" gap={2} mb={3}>
+        <Box flex="1" minWidth="200px">
+          <Card>
+            <CardContent>
+              <Typography color="textSecondary" gutterBottom>
+                Current Streak
+              </Typography>
+              <Typography variant="h4">
+                {stats.currentStreak} {stats.currentStreak === 1 ? 'day' : 'days'}
+              </Typography>
+            </CardContent>
+          </Card>
+        </Box>
+
+        <Box flex="1" minWidth="200px">
+          <Card>
+            <CardContent>
+              <Typography color="textSecondary" gutterBottom>
+                Longest Streak
+              </Typography>
+              <Typography variant="h4">
+                {stats.longestStreak} {stats.longestStreak === 1 ? 'day' : 'days'}
+              </Typography>
+            </CardContent>
+          </Card>
+        </Box>
+
+        <Box flex="1" minWidth="200px">
+          <Card>
+            <CardContent>
+              <Typography color="textSecondary" gutterBottom>
+                Days Practiced This Week
+              </Typography>
+              <Typography variant="h4">
+                {weeklyPractice[weeklyPractice.length - 1]?.daysPracticed || 0} / 7
+              </Typography>
+            </CardContent>
+          </Card>
+        </Box>
+      </Box>
+
+      <Box display="flex" flexWrap="wrap" gap={3} mb={3}>
+        <Box flex="2" minWidth="400px">
+          <Card>
+            <CardContent>
+              <Typography variant="h6" gutterBottom>
+                Days Practiced per Week
+              </Typography>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={weeklyPractice}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="label" />
+                  <YAxis domain={[0, 7]} allowDecimals={false} />
+                  <Tooltip />
+                  <Bar dataKey="daysPracticed" fill="#10b981" name="Days practiced" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </Box>
+
+        <Box flex="1" minWidth="300px">
+          <Card>
+            <CardContent>
+              <Box display="flex" alignItems="center" justifyContent="space-between" gap={1} mb={1}>
+                <Typography variant="h6">
+                  Streaks by Mantra
+                </Typography>
+                <FormControl size="small" sx={{ minWidth: 140 }}>
+                  <InputLabel>Grace</InputLabel>
+                  <Select
+                    value={graceDays}
+                    label="Grace"
+                    onChange={(e) => handleGraceDaysChange(Number(e.target.value))}
+                  >
+                    <MenuItem value={0}>No missed days</MenuItem>
+                    <MenuItem value={1}>1 missed day</MenuItem>
+                    <MenuItem value={2}>2 missed days</MenuItem>
+                  </Select>
+                </FormControl>
+              </Box>
+              <Box sx={{ maxHeight: 220, overflow: 'auto' }}>
+                {mantraStreakList.map(streak => (
+                  <Box
+                    key={streak.name}
+                    display="flex"
+                    justifyContent="space-between"
+                    sx={{ py: 1, borderBottom: '1px solid #eee', '&:last-child': { borderBottom: 'none' } }}
+                  >
+                    <Typography variant="body2">{streak.name}</Typography>
+                    <Typography variant="body2" color="textSecondary">
+                      {streak.current} current • {streak.longest} best
+                    </Typography>
+                  </Box>
+                ))}
+                {mantraStreakList.length === 0 && (
+                  <Typography variant="body2" color="textSecondary">
+                    No recitations yet
+                  </Typography>
+                )}
+              </Box>
+            </CardContent>
+          </Card>
+        </Box>
+      </Box>
+
+      {/* Practice Calendar */}
+      <Box mb={3}>
+        <PracticeHeatmap recitations={recitations} />
+      </Box>
+
       {/* Charts Section */}
       <Box display="flex" flexWrap="wrap" gap={3} mb={3}>
         <Box flex="2" minWidth="400px">
@@ -217,7 +379,8 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
             <Box sx={{ maxHeight: 300, overflow: 'auto' }}>
               {recitations
                 .slice()
-                .reverse()
+                // Newest first by when they were recited, not by storage order
+                .sort((a, b) => dayjs(b.timestamp).valueOf() - dayjs(a.timestamp).valueOf())
                 .slice(0, 10)
                 .map((recitation) => (
                   <Box
@@ -228,9 +391,31 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
                       '&:last-child': { borderBottom: 'none' },
                     }}
                   >
-                    <Typography variant="subtitle1">
-                      {recitation.mantraName}
-                    </Typography>
+                    <Box display="flex" alignItems="center" justifyContent="space-between" gap={1}>
+                      <Typography variant="subtitle1">
+                        {recitation.mantraName}
+                      </Typography>
+                      <Box display="flex" alignItems="center" gap={1}>
+                        {recitation.syncState && (
+                          <Chip
+                            label={SYNC_STATE_CHIPS[recitation.syncState].label}
+                            color={SYNC_STATE_CHIPS[recitation.syncState].color}
+                            size="small"
+                            variant="outlined"
+                          />
+                        )}
+                        {onEditRecitation && (
+                          <IconButton size="small" onClick={() => setEditingRecitation(recitation)}>
+                            <EditIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                        {onDeleteRecitation && (
+                          <IconButton size="small" onClick={() => handleDelete(recitation)}>
+                            <DeleteIcon fontSize="small" />
+                          </IconButton>
+                        )}
+                      </Box>
+                    </Box>
                     <Typography variant="body2" color="textSecondary">
                       {recitation.count} repetitions • {recitation.duration} minutes • {' '}
                       {dayjs(recitation.timestamp).format('MMM D, YYYY h:mm A')}
@@ -246,6 +431,17 @@ export default function MetricsDashboard({ recitations }: MetricsDashboardProps)
           </CardContent>
         </Card>
       </Box>
+
+      {onEditRecitation && (
+        <RecitationEditDialog
+          recitation={editingRecitation}
+          onClose={() => setEditingRecitation(null)}
+          onSave={(id, updates) => {
+            onEditRecitation(id, updates);
+            setEditingRecitation(null);
+          }}
+        />
+      )}
     </Box>
   );
 }
\ No newline at end of file
@@ -0,0 +1,263 @@
+import React, { useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  IconButton,
+  Tooltip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+} from '@mui/material';
+import {
+  ChevronLeft as ChevronLeftIcon,
+  ChevronRight as ChevronRightIcon,
+} from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { MantraRecitation, DailyStats } from '../types';
+import { getDailyStats } from '../lib/streaks';
+import { addDays, startOfWeek, toDayKey, todayKey } from '../lib/dates';
+
+interface PracticeHeatmapProps {
+  recitations: MantraRecitation[];
+}
+
+type Metric = 'count' | 'duration';
+
+const CELL_SIZE = 12;
+const CELL_GAP = 3;
+const LABEL_WIDTH = 28;
+const HEADER_HEIGHT = 16;
+const LEVEL_COLORS = ['#ebedf0', '#d6cbf2', '#ab94e3', '#8460d1', '#6b46c1'];
+
+// Map a value to one of four intensity levels relative to the busiest day
+function getLevel(value: number, max: number): number {
+  if (value <= 0 || max <= 0) return 0;
+  return Math.min(4, Math.ceil((value / max) * 4));
+}
+
+export default function PracticeHeatmap({ recitations }: PracticeHeatmapProps) {
+  const today = todayKey();
+  const currentYear = Number(today.slice(0, 4));
+  const [year, setYear] = useState(currentYear);
+  const [metric, setMetric] = useState<Metric>('count');
+  const [mantraFilter, setMantraFilter] = useState('');
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const mantraNames = useMemo(
+    () => Array.from(new Set(recitations.map(r => r.mantraName))).sort((a, b) => a.localeCompare(b)),
+    [recitations]
+  );
+
+  const filteredRecitations = useMemo(
+    () => (mantraFilter ? recitations.filter(r => r.mantraName === mantraFilter) : recitations),
+    [recitations, mantraFilter]
+  );
+
+  const statsByDate = useMemo(() => {
+    const byDate = new Map<string, DailyStats>();
+    getDailyStats(filteredRecitations)
+      .filter(day => day.date.startsWith(`${year}-`))
+      .forEach(day => byDate.set(day.date, day));
+    return byDate;
+  }, [filteredRecitations, year]);
+
+  const maxValue = useMemo(
+    () => Math.max(0, ...Array.from(statsByDate.values()).map(day => day[metric])),
+    [statsByDate, metric]
+  );
+
+  // Week columns from the week containing Jan 1 to the week containing Dec 31
+  const weeks = useMemo(() => {
+    const end = `${year}-12-31`;
+    const columns: Array<Array<string | null>> = [];
+
+    for (let day = startOfWeek(`${year}-01-01`), index = 0; day <= end; day = addDays(day, 1), index += 1) {
+      if (index % 7 === 0) {
+        columns.push([]);
+      }
+      columns[columns.length - 1].push(day.startsWith(`${year}-`) ? day : null);
+    }
+    return columns;
+  }, [year]);
+
+  const monthLabels = useMemo(() => {
+    const labels: Array<{ label: string; column: number }> = [];
+    weeks.forEach((week, column) => {
+      const firstOfMonth = week.find(date => date && date.endsWith('-01'));
+      if (firstOfMonth) {
+        labels.push({ label: dayjs(firstOfMonth).format('MMM'), column });
+      }
+    });
+    return labels;
+  }, [weeks]);
+
+  const selectedRecitations = useMemo(
+    () => (selectedDate
+      ? filteredRecitations
+        .filter(r => r.timestamp && toDayKey(r.timestamp) === selectedDate)
+        .sort((a, b) => dayjs(a.timestamp).valueOf() - dayjs(b.timestamp).valueOf())
+      : []),
+    [filteredRecitations, selectedDate]
+  );
+
+  const yearTotals = useMemo(() => {
+    const days = Array.from(statsByDate.values());
+    return {
+      days: days.length,
+      count: days.reduce((sum, day) => sum + day.count, 0),
+      duration: days.reduce((sum, day) => sum + day.duration, 0),
+    };
+  }, [statsByDate]);
+
+  const width = LABEL_WIDTH + weeks.length * (CELL_SIZE + CELL_GAP);
+  const height = HEADER_HEIGHT + 7 * (CELL_SIZE + CELL_GAP);
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={2} mb={2}>
+          <Box display="flex" alignItems="center" gap={1}>
+            <Typography variant="h6" sx={{ mr: 1 }}>
+              Practice Calendar
+            </Typography>
+            <IconButton size="small" onClick={() => setYear(year - 1)}>
+              <ChevronLeftIcon />
+            </IconButton>
+            <Typography variant="subtitle1">{year}</Typography>
+            <IconButton size="small" onClick={() => setYear(year + 1)} disabled={year >= currentYear}>
+              <ChevronRightIcon />
+            </IconButton>
+          </Box>
+
+          <Box display="flex" alignItems="center" gap={2} flexWrap="wrap">
+            <FormControl size="small" sx={{ minWidth: 180 }}>
+              <InputLabel>Mantra</InputLabel>
+              <Select value={mantraFilter} label="Mantra" onChange={(e) => setMantraFilter(e.target.value)}>
+                <MenuItem value="">All mantras</MenuItem>
+                {mantraNames.map(name => (
+                  <MenuItem key={name} value={name}>{name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={metric}
+              onChange={(e, value: Metric | null) => value && setMetric(value)}
+            >
+              <ToggleButton value="count">Count</ToggleButton>
+              <ToggleButton value="duration">Duration</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+        </Box>
+
+        <Box sx={{ overflowX: 'auto' }}>
+          <svg width={width} height={height} role="img" aria-label={`Practice calendar for ${year}`}>
+            {monthLabels.map(({ label, column }) => (
+              <text
+                key={label}
+                x={LABEL_WIDTH + column * (CELL_SIZE + CELL_GAP)}
+                y={HEADER_HEIGHT - 5}
+                fontSize={10}
+                fill="#666"
+              >
+                {label}
+              </text>
+            ))}
+            {/* Label every other row; rows follow the locale's first day of the week */}
+            {[1, 3, 5].map(row => (
+              <text
+                key={row}
+                x={0}
+                y={HEADER_HEIGHT + row * (CELL_SIZE + CELL_GAP) + CELL_SIZE - 2}
+                fontSize={9}
+                fill="#666"
+              >
+                {dayjs().startOf('week').add(row, 'day').format('ddd')}
+              </text>
+            ))}
+            {weeks.map((week, column) => week.map((date, row) => {
+              if (!date) return null;
+              const day = statsByDate.get(date);
+              const level = day ? getLevel(day[metric], maxValue) : 0;
+              const tooltip = day
+                ? `${dayjs(date).format('ddd, MMM D, YYYY')}: ${day.count.toLocaleString()} repetitions, ` +
+                  `${day.duration} min, ${day.recitations} ${day.recitations === 1 ? 'session' : 'sessions'}`
+                : `${dayjs(date).format('ddd, MMM D, YYYY')}: no practice`;
+
+              return (
+                <Tooltip key={date} title={tooltip} arrow>
+                  <rect
+                    x={LABEL_WIDTH + column * (CELL_SIZE + CELL_GAP)}
+                    y={HEADER_HEIGHT + row * (CELL_SIZE + CELL_GAP)}
+                    width={CELL_SIZE}
+                    height={CELL_SIZE}
+                    rx={2}
+                    fill={LEVEL_COLORS[level]}
+                    stroke={date === today ? '#333' : 'none'}
+                    style={{ cursor: day ? 'pointer' : 'default' }}
+                    onClick={() => day && setSelectedDate(date)}
+                  />
+                </Tooltip>
+              );
+            }))}
+          </svg>
+        </Box>
+
+        <Box display="flex" alignItems="center" justifyContent="space-between" flexWrap="wrap" gap={1} mt={1}>
+          <Typography variant="body2" color="textSecondary">
+            {yearTotals.days} days practiced • {yearTotals.count.toLocaleString()} repetitions • {yearTotals.duration} min
+          </Typography>
+          <Box display="flex" alignItems="center" gap={0.5}>
+            <Typography variant="caption" color="textSecondary">Less</Typography>
+            {LEVEL_COLORS.map(color => (
+              <Box key={color} sx={{ width: CELL_SIZE, height: CELL_SIZE, borderRadius: '2px', bgcolor: color }} />
+            ))}
+            <Typography variant="caption" color="textSecondary">More</Typography>
+          </Box>
+        </Box>
+
+        <Dialog open={selectedDate !== null} onClose={() => setSelectedDate(null)} maxWidth="sm" fullWidth>
+          <DialogTitle>
+            {selectedDate && dayjs(selectedDate).format('dddd, MMMM D, YYYY')}
+          </DialogTitle>
+          <DialogContent>
+            {selectedRecitations.map(recitation => (
+              <Box
+                key={recitation.id}
+                sx={{ py: 1.5, borderBottom: '1px solid #eee', '&:last-child': { borderBottom: 'none' } }}
+              >
+                <Typography variant="subtitle1">
+                  {recitation.mantraName}
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {recitation.count} repetitions
+                  {recitation.duration ? ` • ${recitation.duration} minutes` : ''} • {' '}
+                  {dayjs(recitation.timestamp).format('h:mm A')}
+                </Typography>
+                {recitation.notes && (
+                  <Typography variant="body2" sx={{ mt: 0.5, fontStyle: 'italic' }}>
+                    {recitation.notes}
+                  </Typography>
+                )}
+              </Box>
+            ))}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setSelectedDate(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,102 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  Button,
+  Box,
+} from '@mui/material';
+import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { MantraRecitation } from '../types';
+
+interface RecitationEditDialogProps {
+  recitation: MantraRecitation | null;
+  onClose: () => void;
+  onSave: (id: string, updates: Partial<Omit<MantraRecitation, 'id'>>) => void;
+}
+
+export default function RecitationEditDialog({ recitation, onClose, onSave }: RecitationEditDialogProps) {
+  const [count, setCount] = useState<number>(0);
+  const [duration, setDuration] = useState<number | ''>('');
+  const [timestamp, setTimestamp] = useState<Dayjs | null>(null);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (recitation) {
+      setCount(recitation.count);
+      setDuration(recitation.duration ?? '');
+      setTimestamp(recitation.timestamp ? dayjs(recitation.timestamp) : null);
+      setNotes(recitation.notes || '');
+    }
+  }, [recitation]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!recitation || count <= 0) return;
+
+    onSave(recitation.id, {
+      count,
+      duration: duration === '' ? undefined : duration,
+      timestamp: timestamp ? timestamp.toDate() : undefined,
+      notes: notes || undefined,
+    });
+  };
+
+  return (
+    <Dialog open={recitation !== null} onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>
+          Edit {recitation?.mantraName}
+        </DialogTitle>
+        <DialogContent>
+          <Box display="flex" flexDirection="column" gap={2} sx={{ mt: 1 }}>
+            <TextField
+              fullWidth
+              label="Count"
+              type="number"
+              value={count}
+              onChange={(e) => setCount(Number(e.target.value))}
+              inputProps={{ min: 1 }}
+              required
+            />
+            <TextField
+              fullWidth
+              label="Duration (minutes) - Optional"
+              type="number"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value === '' ? '' : Number(e.target.value))}
+              inputProps={{ min: 1 }}
+            />
+            <DateTimePicker
+              label="Date & Time"
+              value={timestamp}
+              onChange={(newValue) => setTimestamp(newValue)}
+              slotProps={{
+                textField: {
+                  fullWidth: true,
+                },
+              }}
+            />
+            <TextField
+              fullWidth
+              label="Notes (optional)"
+              multiline
+              rows={3}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained">
+            Save Changes
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,360 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Button,
+  Chip,
+  IconButton,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+  TableSortLabel,
+  TablePagination,
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Delete as DeleteIcon,
+  Download as DownloadIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { MantraRecitation } from '../types';
+import { useMantras } from '../hooks/useMantras';
+import { recitationsToCsv, recitationsToJson, downloadFile } from '../lib/exportData';
+import { toDayKey } from '../lib/dates';
+import RecitationEditDialog from './RecitationEditDialog';
+
+interface RecitationHistoryProps {
+  recitations: MantraRecitation[];
+  onEditRecitation: (id: string, updates: Partial<Omit<MantraRecitation, 'id'>>) => void;
+  onDeleteRecitation: (id: string) => void;
+}
+
+type SortColumn = 'timestamp' | 'mantraName' | 'category' | 'count' | 'duration' | 'syncState';
+
+const UNCATEGORIZED = 'Uncategorized';
+
+export default function RecitationHistory({ recitations, onEditRecitation, onDeleteRecitation }: RecitationHistoryProps) {
+  const mantras = useMantras();
+  const [mantraFilter, setMantraFilter] = useState('');
+  const [categoryFilter, setCategoryFilter] = useState('');
+  const [fromDate, setFromDate] = useState<Dayjs | null>(null);
+  const [toDate, setToDate] = useState<Dayjs | null>(null);
+  const [search, setSearch] = useState('');
+  const [sortColumn, setSortColumn] = useState<SortColumn>('timestamp');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(0);
+  const [rowsPerPage, setRowsPerPage] = useState(25);
+  const [editingRecitation, setEditingRecitation] = useState<MantraRecitation | null>(null);
+
+  // Resolve categories by mantra ID first, then by name for recitations logged before IDs were stored
+  const getCategory = useMemo(() => {
+    const byId = new Map(mantras.map(m => [m.id, m.category]));
+    const byName = new Map(mantras.map(m => [m.name, m.category]));
+    return (recitation: MantraRecitation) =>
+      (recitation.mantraId && byId.get(recitation.mantraId)) || byName.get(recitation.mantraName) || UNCATEGORIZED;
+  }, [mantras]);
+
+  const mantraNames = useMemo(
+    () => Array.from(new Set(recitations.map(r => r.mantraName))).sort((a, b) => a.localeCompare(b)),
+    [recitations]
+  );
+
+  const categories = useMemo(
+    () => Array.from(new Set(recitations.map(getCategory))).sort((a, b) => a.localeCompare(b)),
+    [recitations, getCategory]
+  );
+
+  const filteredRecitations = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const from = fromDate ? fromDate.format('YYYY-MM-DD') : null;
+    const to = toDate ? toDate.format('YYYY-MM-DD') : null;
+
+    return recitations.filter(r => {
+      if (mantraFilter && r.mantraName !== mantraFilter) return false;
+      if (categoryFilter && getCategory(r) !== categoryFilter) return false;
+      if (query && !(r.notes || '').toLowerCase().includes(query)) return false;
+
+      if (from !== null || to !== null) {
+        if (!r.timestamp) return false;
+        const day = toDayKey(r.timestamp);
+        if (from !== null && day < from) return false;
+        if (to !== null && day > to) return false;
+      }
+      return true;
+    });
+  }, [recitations, mantraFilter, categoryFilter, fromDate, toDate, search, getCategory]);
+
+  const sortedRecitations = useMemo(() => {
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    const valueOf = (r: MantraRecitation): string | number => {
+      switch (sortColumn) {
+        case 'timestamp':
+          return r.timestamp ? dayjs(r.timestamp).valueOf() : 0;
+        case 'mantraName':
+          return r.mantraName.toLowerCase();
+        case 'category':
+          return getCategory(r).toLowerCase();
+        case 'count':
+          return r.count;
+        case 'duration':
+          return r.duration || 0;
+        case 'syncState':
+          return r.syncState || '';
+      }
+    };
+
+    return filteredRecitations
+      .map(r => ({ r, value: valueOf(r) }))
+      .sort((a, b) => (a.value < b.value ? -1 : a.value > b.value ? 1 : 0) * direction)
+      .map(({ r }) => r);
+  }, [filteredRecitations, sortColumn, sortDirection, getCategory]);
+
+  // Stay on a page that exists when the list shrinks, e.g. after deleting the last row of the last page
+  const lastPage = Math.max(0, Math.ceil(filteredRecitations.length / rowsPerPage) - 1);
+  const currentPage = Math.min(page, lastPage);
+  useEffect(() => {
+    setPage(p => Math.min(p, lastPage));
+  }, [lastPage]);
+
+  const pageRecitations = sortedRecitations.slice(currentPage * rowsPerPage, currentPage * rowsPerPage + rowsPerPage);
+
+  // Jump back to the first page whenever the result set changes shape
+  useEffect(() => {
+    setPage(0);
+  }, [mantraFilter, categoryFilter, fromDate, toDate, search, sortColumn, sortDirection]);
+
+  const handleSort = (column: SortColumn) => {
+    if (sortColumn === column) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortColumn(column);
+      setSortDirection(column === 'timestamp' ? 'desc' : 'asc');
+    }
+  };
+
+  const clearFilters = () => {
+    setMantraFilter('');
+    setCategoryFilter('');
+    setFromDate(null);
+    setToDate(null);
+    setSearch('');
+  };
+
+  // Exports follow the active filters and sort order so they match what's on screen
+  const handleExport = (format: 'csv' | 'json') => {
+    const filters: Record<string, string> = {};
+    if (mantraFilter) filters.mantra = mantraFilter;
+    if (categoryFilter) filters.category = categoryFilter;
+    if (fromDate) filters.from = fromDate.format('YYYY-MM-DD');
+    if (toDate) filters.to = toDate.format('YYYY-MM-DD');
+    if (search.trim()) filters.notes = search.trim();
+
+    const filename = `recitations-${dayjs().format('YYYY-MM-DD')}.${format}`;
+    if (format === 'csv') {
+      downloadFile(filename, recitationsToCsv(sortedRecitations), 'text/csv');
+    } else {
+      downloadFile(filename, recitationsToJson(sortedRecitations, filters), 'application/json');
+    }
+  };
+
+  const handleDelete = (recitation: MantraRecitation) => {
+    if (window.confirm(`Delete this ${recitation.mantraName} recitation?`)) {
+      onDeleteRecitation(recitation.id);
+    }
+  };
+
+  const columns: Array<{ id: SortColumn; label: string; numeric?: boolean }> = [
+    { id: 'timestamp', label: 'Date & Time' },
+    { id: 'mantraName', label: 'Mantra' },
+    { id: 'category', label: 'Category' },
+    { id: 'count', label: 'Count', numeric: true },
+    { id: 'duration', label: 'Duration (min)', numeric: true },
+    { id: 'syncState', label: 'Sync' },
+  ];
+
+  return (
+    <Card>
+      <CardContent>
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1} mb={1}>
+          <Typography variant="h5" component="h2">
+            Recitation History
+          </Typography>
+          <Box display="flex" gap={1}>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              onClick={() => handleExport('csv')}
+              disabled={sortedRecitations.length === 0}
+            >
+              Export CSV
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<DownloadIcon />}
+              onClick={() => handleExport('json')}
+              disabled={sortedRecitations.length === 0}
+            >
+              Export JSON
+            </Button>
+          </Box>
+        </Box>
+
+        {/* Filters */}
+        <Box display="flex" flexWrap="wrap" gap={2} mb={2}>
+          <Box flex="1" minWidth="180px">
+            <FormControl fullWidth size="small">
+              <InputLabel>Mantra</InputLabel>
+              <Select value={mantraFilter} label="Mantra" onChange={(e) => setMantraFilter(e.target.value)}>
+                <MenuItem value="">All mantras</MenuItem>
+                {mantraNames.map(name => (
+                  <MenuItem key={name} value={name}>{name}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Box flex="1" minWidth="180px">
+            <FormControl fullWidth size="small">
+              <InputLabel>Category</InputLabel>
+              <Select value={categoryFilter} label="Category" onChange={(e) => setCategoryFilter(e.target.value)}>
+                <MenuItem value="">All categories</MenuItem>
+                {categories.map(category => (
+                  <MenuItem key={category} value={category}>{category}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Box flex="1" minWidth="160px">
+            <DatePicker
+              label="From"
+              value={fromDate}
+              onChange={(newValue) => setFromDate(newValue)}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box flex="1" minWidth="160px">
+            <DatePicker
+              label="To"
+              value={toDate}
+              onChange={(newValue) => setToDate(newValue)}
+              slotProps={{ textField: { fullWidth: true, size: 'small' } }}
+            />
+          </Box>
+          <Box flex="2" minWidth="200px">
+            <TextField
+              fullWidth
+              size="small"
+              label="Search notes"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </Box>
+          <Button variant="outlined" onClick={clearFilters}>
+            Clear
+          </Button>
+        </Box>
+
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 1 }}>
+          {filteredRecitations.length} of {recitations.length} recitations
+        </Typography>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                {columns.map(column => (
+                  <TableCell key={column.id} align={column.numeric ? 'right' : 'left'}>
+                    <TableSortLabel
+                      active={sortColumn === column.id}
+                      direction={sortColumn === column.id ? sortDirection : 'asc'}
+                      onClick={() => handleSort(column.id)}
+                    >
+                      {column.label}
+                    </TableSortLabel>
+                  </TableCell>
+                ))}
+                <TableCell>Notes</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {pageRecitations.map(recitation => (
+                <TableRow key={recitation.id} hover>
+                  <TableCell>
+                    {recitation.timestamp ? dayjs(recitation.timestamp).format('MMM D, YYYY h:mm A') : '—'}
+                  </TableCell>
+                  <TableCell>{recitation.mantraName}</TableCell>
+                  <TableCell>{getCategory(recitation)}</TableCell>
+                  <TableCell align="right">{recitation.count.toLocaleString()}</TableCell>
+                  <TableCell align="right">{recitation.duration ?? '—'}</TableCell>
+                  <TableCell>
+                    {recitation.syncState && (
+                      <Chip
+                        label={recitation.syncState}
+                        size="small"
+                        variant="outlined"
+                        color={recitation.syncState === 'synced' ? 'success' : recitation.syncState === 'failed' ? 'error' : 'warning'}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 240, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                    {recitation.notes}
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <IconButton size="small" onClick={() => setEditingRecitation(recitation)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" onClick={() => handleDelete(recitation)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {pageRecitations.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={columns.length + 2} align="center">
+                    No recitations match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={sortedRecitations.length}
+          page={currentPage}
+          onPageChange={(e, newPage) => setPage(newPage)}
+          rowsPerPage={rowsPerPage}
+          onRowsPerPageChange={(e) => {
+            setRowsPerPage(parseInt(e.target.value, 10));
+            setPage(0);
+          }}
+          rowsPerPageOptions={[25, 50, 100]}
+        />
+
+        <RecitationEditDialog
+          recitation={editingRecitation}
+          onClose={() => setEditingRecitation(null)}
+          onSave={(id, updates) => {
+            onEditRecitation(id, updates);
+            setEditingRecitation(null);
+          }}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,298 @@
+import React, { useState, useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Checkbox,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TableContainer,
+} from '@mui/material';
+import { Upload as UploadIcon } from '@mui/icons-material';
+import dayjs from 'dayjs';
+import { MantraRecitation } from '../types';
+import { useMantras } from '../hooks/useMantras';
+import { recitationService } from '../services/recitationService';
+import { syncQueueService } from '../services/syncQueueService';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  DateFormat,
+  ImportField,
+  ImportRecord,
+  parseCsv,
+  parseJsonExport,
+  guessColumnMapping,
+  csvRowsToRecords,
+  jsonToRecords,
+  buildImportPreview,
+} from '../lib/importData';
+
+interface RecitationImportProps {
+  recitations: MantraRecitation[];
+}
+
+interface LoadedFile {
+  name: string;
+  type: 'csv' | 'json';
+  headers: string[];
+  rows: string[][];
+  records: ImportRecord[];
+}
+
+export default function RecitationImport({ recitations }: RecitationImportProps) {
+  const mantras = useMantras();
+  const [file, setFile] = useState<LoadedFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('iso');
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!selected) return;
+
+    setError(null);
+    setResult(null);
+
+    try {
+      const text = await selected.text();
+      if (selected.name.toLowerCase().endsWith('.json')) {
+        setFile({ name: selected.name, type: 'json', headers: [], rows: [], records: jsonToRecords(parseJsonExport(text)) });
+        setDateFormat('iso');
+      } else {
+        const [headers = [], ...rows] = parseCsv(text);
+        if (rows.length === 0) {
+          throw new Error('The CSV file has no data rows');
+        }
+        setFile({ name: selected.name, type: 'csv', headers, rows, records: [] });
+        setMapping(guessColumnMapping(headers));
+      }
+    } catch (err) {
+      setFile(null);
+      setError(err instanceof Error ? err.message : 'Could not read file');
+    }
+  };
+
+  const records = useMemo(() => {
+    if (!file) return [];
+    return file.type === 'csv' ? csvRowsToRecords(file.rows, mapping) : file.records;
+  }, [file, mapping]);
+
+  const missingFields = file?.type === 'csv'
+    ? IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined).map(f => f.label)
+    : [];
+
+  const mappingComplete = missingFields.length === 0;
+
+  const preview = useMemo(() => {
+    if (!file || !mappingComplete) return null;
+    // CSV line numbers count the header row
+    return buildImportPreview(records, mantras, recitations, { dateFormat, firstLine: file.type === 'csv' ? 2 : 1 });
+  }, [file, mappingComplete, records, mantras, recitations, dateFormat]);
+
+  const importable = preview
+    ? preview.rows.filter(r => r.recitation && (!r.duplicate || includeDuplicates))
+    : [];
+
+  const handleImport = async () => {
+    if (importable.length === 0) return;
+
+    setImporting(true);
+    setError(null);
+    try {
+      // Duplicates imported on purpose become new records rather than overwriting existing ones
+      const imported = await recitationService.importRecitations(
+        importable.map(r => (r.duplicate ? { ...r.recitation!, id: '' } : r.recitation!))
+      );
+
+      await syncQueueService.queueRecitations(imported);
+
+      setResult(`Imported ${imported.length} recitations from ${file?.name}`);
+      setFile(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    const next = { ...mapping };
+    if (value === '') {
+      delete next[field];
+    } else {
+      next[field] = Number(value);
+    }
+    setMapping(next);
+  };
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h5" component="h2" gutterBottom>
+          Import Recitations
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          Import a CSV from a spreadsheet or paper log, or a JSON file exported from this app.
+          Nothing is saved until you review the preview and confirm.
+        </Typography>
+
+        <Button variant="contained" component="label" startIcon={<UploadIcon />}>
+          Choose File
+          <input type="file" hidden accept=".csv,.json,text/csv,application/json" onChange={handleFileChange} />
+        </Button>
+
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+        {result && (
+          <Alert severity="success" sx={{ mt: 2 }} onClose={() => setResult(null)}>
+            {result}
+          </Alert>
+        )}
+
+        {file && (
+          <Box mt={3}>
+            <Typography variant="subtitle1" gutterBottom>
+              {file.name}
+            </Typography>
+
+            {/* Column mapping */}
+            {file.type === 'csv' && (
+              <Box display="flex" flexWrap="wrap" gap={2} mb={2}>
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <FormControl key={field} size="small" sx={{ minWidth: 160 }}>
+                    <InputLabel>{required ? `${label} *` : label}</InputLabel>
+                    <Select
+                      value={mapping[field] === undefined ? '' : String(mapping[field])}
+                      label={required ? `${label} *` : label}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                    >
+                      <MenuItem value="">Not imported</MenuItem>
+                      {file.headers.map((header, index) => (
+                        <MenuItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                ))}
+                <FormControl size="small" sx={{ minWidth: 160 }}>
+                  <InputLabel>Date format</InputLabel>
+                  <Select
+                    value={dateFormat}
+                    label="Date format"
+                    onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+                  >
+                    <MenuItem value="iso">ISO (2024-01-31)</MenuItem>
+                    <MenuItem value="MM/DD/YYYY">MM/DD/YYYY</MenuItem>
+                    <MenuItem value="DD/MM/YYYY">DD/MM/YYYY</MenuItem>
+                  </Select>
+                </FormControl>
+              </Box>
+            )}
+
+            {missingFields.length > 0 && (
+              <Alert severity="warning" sx={{ mb: 2 }}>
+                Choose a column for: {missingFields.join(', ')}
+              </Alert>
+            )}
+
+            {/* Dry-run preview */}
+            {preview && (
+              <>
+                <Box display="flex" alignItems="center" gap={1} flexWrap="wrap" mb={2}>
+                  <Chip label={`${preview.valid} ready`} color="success" size="small" />
+                  <Chip label={`${preview.duplicates} duplicates`} color="warning" size="small" />
+                  <Chip label={`${preview.invalid} with errors`} color="error" size="small" />
+                  <FormControlLabel
+                    control={
+                      <Checkbox
+                        checked={includeDuplicates}
+                        onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                        size="small"
+                      />
+                    }
+                    label="Import duplicates anyway"
+                  />
+                </Box>
+
+                <TableContainer sx={{ maxHeight: 400 }}>
+                  <Table size="small" stickyHeader>
+                    <TableHead>
+                      <TableRow>
+                        <TableCell>Line</TableCell>
+                        <TableCell>Status</TableCell>
+                        <TableCell>Mantra</TableCell>
+                        <TableCell align="right">Count</TableCell>
+                        <TableCell>Date</TableCell>
+                        <TableCell>Details</TableCell>
+                      </TableRow>
+                    </TableHead>
+                    <TableBody>
+                      {preview.rows.map(row => (
+                        <TableRow key={row.line}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <Chip label="Error" color="error" size="small" />
+                            ) : row.duplicate ? (
+                              <Chip label="Duplicate" color="warning" size="small" />
+                            ) : (
+                              <Chip label="Ready" color="success" size="small" variant="outlined" />
+                            )}
+                          </TableCell>
+                          <TableCell>{row.recitation?.mantraName}</TableCell>
+                          <TableCell align="right">{row.recitation?.count}</TableCell>
+                          <TableCell>
+                            {row.recitation?.timestamp && dayjs(row.recitation.timestamp).format('MMM D, YYYY h:mm A')}
+                          </TableCell>
+                          <TableCell>
+                            <Typography variant="caption" color={row.errors.length > 0 ? 'error' : 'textSecondary'}>
+                              {[...row.errors, ...row.warnings].join('; ')}
+                            </Typography>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </TableContainer>
+
+                <Box display="flex" gap={1} mt={2}>
+                  <Button
+                    variant="contained"
+                    onClick={handleImport}
+                    disabled={importing || importable.length === 0}
+                  >
+                    {importing ? 'Importing...' : `Import ${importable.length} Recitations`}
+                  </Button>
+                  <Button onClick={() => setFile(null)} disabled={importing}>
+                    Cancel
+                  </Button>
+                </Box>
+              </>
+            )}
+          </Box>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { AdapterDayjs } from '@mui/x-date-pickers/AdapterDayjs';
+import RecitationLogger from './RecitationLogger';
+import { Mantra } from '../services/mantraService';
+
+const mockMantras: Mantra[] = [
+  { id: 'japji', name: 'Japji Sahib', category: 'Banis', traditionalCount: 1, source: 'core' },
+];
+
+jest.mock('../hooks/useMantras', () => ({
+  useMantras: () => mockMantras,
+}));
+
+// Stand-in for the live counter: finishing reports a fixed session
+jest.mock('./CountingSession', () => ({
+  __esModule: true,
+  default: ({ open, onFinish }: { open: boolean; onFinish: (result: { count: number; duration: number; startedAt: Date }) => void }) =>
+    open ? (
+      <button onClick={() => onFinish({ count: 27, duration: 5, startedAt: new Date(2024, 0, 1, 6) })}>
+        Finish Session
+      </button>
+    ) : null,
+}));
+
+function renderLogger(onAddRecitation = jest.fn()) {
+  render(
+    <LocalizationProvider dateAdapter={AdapterDayjs}>
+      <RecitationLogger onAddRecitation={onAddRecitation} />
+    </LocalizationProvider>
+  );
+}
+
+function pick(selectIndex: number, option: string | RegExp) {
+  fireEvent.mouseDown(screen.getAllByRole('combobox')[selectIndex]);
+  fireEvent.click(within(screen.getByRole('listbox')).getByText(option));
+}
+
+function countField(): HTMLInputElement {
+  return screen.getByLabelText(/^Count/) as HTMLInputElement;
+}
+
+describe('RecitationLogger', () => {
+  it('sets the default count for the picked mantra', () => {
+    renderLogger();
+    pick(0, /Daily Banis/);
+    pick(1, 'Japji Sahib');
+    expect(countField().value).toBe('1');
+  });
+
+  it('keeps a counted session total when the mantra is picked afterwards', () => {
+    const onAddRecitation = jest.fn();
+    renderLogger(onAddRecitation);
+    fireEvent.click(screen.getByText('Start Counting Session'));
+    fireEvent.click(screen.getByText('Finish Session'));
+    expect(countField().value).toBe('27');
+
+    pick(0, /Daily Banis/);
+    pick(1, 'Japji Sahib');
+    expect(countField().value).toBe('27');
+
+    fireEvent.click(screen.getByText('Log Recitation'));
+    expect(onAddRecitation).toHaveBeenCalledWith(expect.objectContaining({
+      mantraId: 'japji',
+      mantraName: 'Japji Sahib',
+      count: 27,
+      duration: 5,
+    }));
+  });
+
+  it('goes back to default counts once the session count is edited by hand', () => {
+    renderLogger();
+    fireEvent.click(screen.getByText('Start Counting Session'));
+    fireEvent.click(screen.getByText('Finish Session'));
+    fireEvent.change(countField(), { target: { value: '30' } });
+
+    pick(0, /Daily Banis/);
+    pick(1, 'Japji Sahib');
+    expect(countField().value).toBe('1');
+  });
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   Card,
   CardContent,
@@ -11,51 +11,53 @@ import {
   Select,
   MenuItem,
 } from '@mui/material';
+import { Timer as TimerIcon } from '@mui/icons-material';
 import { DateTimePicker } from '@mui/x-date-pickers/DateTimePicker';
 import dayjs, { Dayjs } from 'dayjs';
 import { MantraRecitation } from '../types';
-import { mantraService, Mantra } from '../services/mantraService';
+import { useMantras } from '../hooks/useMantras';
 import { mantraCategories, dailyBanis, getDefaultCountForMantra } from '../constants/mantraCategories';
+import CountingSession from './CountingSession';
 
 interface RecitationLoggerProps {
   onAddRecitation: (recitation: Omit<MantraRecitation, 'id'>) => void;
 }
 
+// Maps logger categories to the category names used by Google Sheets mantras
+const categoryMapping: Record<string, string> = {
+  'Daily Banis': 'Banis',
+  'Japji Paurees': 'Japji Paurees',
+  'Assorted Mantras': 'Assorted Mantras'
+};
+
 
 export default function RecitationLogger({ onAddRecitation }: RecitationLoggerProps) {
-  const [mantras, setMantras] = useState<Mantra[]>([]);
+  const mantras = useMantras();
   const [selectedCategory, setSelectedCategory] = useState('');
   const [mantraName, setMantraName] = useState('');
   const [customMantra, setCustomMantra] = useState('');
   const [count, setCount] = useState<number>(108);
+  // A counted session total wins over the default count for the picked mantra
+  const [countFromSession, setCountFromSession] = useState(false);
   const [duration, setDuration] = useState<number | ''>('');
   const [timestamp, setTimestamp] = useState<Dayjs | null>(dayjs());
   const [notes, setNotes] = useState('');
-
-  useEffect(() => {
-    loadMantras();
-  }, []);
-
-  const loadMantras = async () => {
-    const allMantras = await mantraService.getAllMantras();
-    console.log('All loaded mantras:', allMantras);
-    console.log('Categories found:', Array.from(new Set(allMantras.map(m => m.category))));
-    console.log('Google Sheets mantras:', allMantras.filter(m => m.id.startsWith('gsheet-')));
-    setMantras(allMantras);
-  };
+  const [sessionOpen, setSessionOpen] = useState(false);
 
   // Handle category selection change
   const handleCategoryChange = (category: string) => {
     setSelectedCategory(category);
     setMantraName(''); // Reset mantra selection when category changes
-    setCount(getDefaultCountForMantra(category)); // Set default count for category
+    if (!countFromSession) {
+      setCount(getDefaultCountForMantra(category)); // Set default count for category
+    }
   };
 
   // Handle mantra selection change
   const handleMantraChange = (selectedMantraName: string) => {
     setMantraName(selectedMantraName);
     
-    if (selectedMantraName && selectedMantraName !== 'custom') {
+    if (selectedMantraName && selectedMantraName !== 'custom' && !countFromSession) {
       // First try to get traditional count from loaded mantras
       const selectedMantra = mantras.find(m => m.name === selectedMantraName);
       if (selectedMantra?.traditionalCount) {
@@ -74,12 +76,6 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
     }
 
     // Get mantras from Google Sheets or other sources that match the category
-    const categoryMapping: Record<string, string> = {
-      'Daily Banis': 'Banis',
-      'Japji Paurees': 'Japji Paurees',
-      'Assorted Mantras': 'Assorted Mantras'
-    };
-
     const categoryName = categoryMapping[selectedCategory];
     if (categoryName) {
       const categoryMantras = mantras
@@ -96,6 +92,28 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
     return [];
   };
 
+  // Resolve the library ID for the selected mantra (scoped to the category so duplicate names don't collide)
+  const resolveMantraId = (selectedMantraName: string): string => {
+    if (selectedMantraName === 'custom') return 'custom';
+
+    const inCategory = selectedCategory === 'Personal Mantras'
+      ? mantras.filter(m => m.source === 'user')
+      : mantras.filter(m => m.category === categoryMapping[selectedCategory]);
+    const match = inCategory.find(m => m.name === selectedMantraName)
+      || mantras.find(m => m.name === selectedMantraName);
+
+    return match ? match.id : 'custom';
+  };
+
+  // Pre-fill the form from a finished counting session; the user still picks the mantra and saves
+  const handleSessionFinish = (result: { count: number; duration: number; startedAt: Date }) => {
+    setCount(result.count);
+    setCountFromSession(true);
+    setDuration(result.duration);
+    setTimestamp(dayjs(result.startedAt));
+    setSessionOpen(false);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -106,6 +124,7 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
     }
 
     onAddRecitation({
+      mantraId: resolveMantraId(mantraName),
       mantraName: finalMantraName,
       count,
       duration: duration === '' ? undefined : duration,
@@ -117,21 +136,24 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
     setMantraName('');
     setCustomMantra('');
     setCount(108);
+    setCountFromSession(false);
     setDuration('');
     setTimestamp(dayjs());
     setNotes('');
-
-    // Reload mantras in case new ones were added
-    loadMantras();
   };
 
   return (
     <Card>
       <CardContent>
-        <Typography variant="h5" component="h2" gutterBottom>
-          Log New Recitation
-        </Typography>
-        
+        <Box display="flex" justifyContent="space-between" alignItems="center" flexWrap="wrap" gap={1} mb={1}>
+          <Typography variant="h5" component="h2">
+            Log New Recitation
+          </Typography>
+          <Button variant="outlined" startIcon={<TimerIcon />} onClick={() => setSessionOpen(true)}>
+            Start Counting Session
+          </Button>
+        </Box>
+
         <form onSubmit={handleSubmit}>
           <Box display="flex" flexDirection="column" gap={3}>
             <Box display="flex" flexWrap="wrap" gap={2}>
@@ -193,7 +215,10 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
                   label="Count"
                   type="number"
                   value={count}
-                  onChange={(e) => setCount(Number(e.target.value))}
+                  onChange={(e) => {
+                    setCount(Number(e.target.value));
+                    setCountFromSession(false);
+                  }}
                   inputProps={{ min: 1 }}
                   required
                 />
@@ -244,6 +269,13 @@ export default function RecitationLogger({ onAddRecitation }: RecitationLoggerPr
             </Button>
           </Box>
         </form>
+
+        <CountingSession
+          open={sessionOpen}
+          mantraName={mantraName === 'custom' ? customMantra : mantraName}
+          onClose={() => setSessionOpen(false)}
+          onFinish={handleSessionFinish}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,155 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+} from '@mui/material';
+import dayjs from 'dayjs';
+import { syncQueueService } from '../services/syncQueueService';
+import { DeadLetterItem } from '../types';
+
+export default function SyncFailures() {
+  const [deadLetter, setDeadLetter] = useState<DeadLetterItem[]>([]);
+  const [editingItem, setEditingItem] = useState<DeadLetterItem | null>(null);
+  const [formData, setFormData] = useState({ count: 0, duration: '' as number | '', notes: '' });
+
+  useEffect(() => {
+    return syncQueueService.subscribe((status) => {
+      setDeadLetter(status.deadLetter);
+    });
+  }, []);
+
+  const handleEdit = (item: DeadLetterItem) => {
+    setEditingItem(item);
+    setFormData({
+      count: item.recitation.count,
+      duration: item.recitation.duration ?? '',
+      notes: item.recitation.notes || '',
+    });
+  };
+
+  const handleSaveAndRetry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingItem || formData.count <= 0) return;
+
+    syncQueueService.retryDeadLetter(editingItem.id, {
+      count: formData.count,
+      duration: formData.duration === '' ? undefined : formData.duration,
+      notes: formData.notes || undefined,
+    });
+    setEditingItem(null);
+  };
+
+  if (deadLetter.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card sx={{ mt: 3 }}>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Failed to Sync ({deadLetter.length})
+        </Typography>
+        <Typography variant="body2" color="textSecondary" sx={{ mb: 2 }}>
+          These recitations are saved on this device but the backend rejected them. Retry, correct or discard each one.
+        </Typography>
+
+        {deadLetter.map((item) => (
+          <Box
+            key={item.id}
+            sx={{
+              p: 2,
+              borderBottom: '1px solid #eee',
+              '&:last-child': { borderBottom: 'none' },
+            }}
+          >
+            <Box display="flex" alignItems="center" justifyContent="space-between" gap={1} flexWrap="wrap">
+              <Box>
+                <Typography variant="subtitle1">
+                  {item.recitation.mantraName}
+                  {item.operation && item.operation !== 'create' && ` (${item.operation})`}
+                </Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {item.recitation.count} repetitions • {' '}
+                  {dayjs(item.recitation.timestamp || item.timestamp).format('MMM D, YYYY h:mm A')}
+                </Typography>
+                <Box display="flex" alignItems="center" gap={1} mt={0.5}>
+                  {item.httpStatus !== null && (
+                    <Chip label={`HTTP ${item.httpStatus}`} color="error" size="small" />
+                  )}
+                  <Typography variant="caption" color="textSecondary">
+                    {item.lastError} • failed {dayjs(item.failedAt).format('MMM D, h:mm A')}
+                  </Typography>
+                </Box>
+              </Box>
+              <Box display="flex" gap={1}>
+                <Button size="small" variant="contained" onClick={() => syncQueueService.retryDeadLetter(item.id)}>
+                  Retry
+                </Button>
+                {item.operation !== 'delete' && (
+                  <Button size="small" variant="outlined" onClick={() => handleEdit(item)}>
+                    Edit
+                  </Button>
+                )}
+                <Button size="small" color="error" onClick={() => syncQueueService.discardDeadLetter(item.id)}>
+                  Discard
+                </Button>
+              </Box>
+            </Box>
+          </Box>
+        ))}
+
+        <Dialog open={editingItem !== null} onClose={() => setEditingItem(null)} maxWidth="sm" fullWidth>
+          <form onSubmit={handleSaveAndRetry}>
+            <DialogTitle>
+              Edit {editingItem?.recitation.mantraName}
+            </DialogTitle>
+            <DialogContent>
+              <Box display="flex" flexDirection="column" gap={2} sx={{ mt: 1 }}>
+                <TextField
+                  fullWidth
+                  label="Count"
+                  type="number"
+                  value={formData.count}
+                  onChange={(e) => setFormData({ ...formData, count: Number(e.target.value) })}
+                  inputProps={{ min: 1 }}
+                  required
+                />
+                <TextField
+                  fullWidth
+                  label="Duration (minutes) - Optional"
+                  type="number"
+                  value={formData.duration}
+                  onChange={(e) => setFormData({ ...formData, duration: e.target.value === '' ? '' : Number(e.target.value) })}
+                  inputProps={{ min: 1 }}
+                />
+                <TextField
+                  fullWidth
+                  label="Notes (optional)"
+                  multiline
+                  rows={3}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                />
+              </Box>
+            </DialogContent>
+            <DialogActions>
+              <Button onClick={() => setEditingItem(null)}>Cancel</Button>
+              <Button type="submit" variant="contained">
+                Save &amp; Retry
+              </Button>
+            </DialogActions>
+          </form>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
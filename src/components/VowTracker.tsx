@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Typography,
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  Paper,
+  Tooltip,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Delete as DeleteIcon,
+  Flag as AbandonIcon,
+} from '@mui/icons-material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import dayjs, { Dayjs } from 'dayjs';
+import { MantraRecitation, Vow, VowDayStatus, VowMissRule, VowQuotaType } from '../types';
+import { Mantra } from '../services/mantraService';
+import { recitationService } from '../services/recitationService';
+import { vowService } from '../services/vowService';
+import { evaluateVow, getDailyTarget } from '../lib/vows';
+import { todayKey } from '../lib/dates';
+
+interface VowTrackerProps {
+  mantras: Mantra[];
+}
+
+const DAY_COLORS: Record<VowDayStatus, string> = {
+  done: '#10b981',
+  partial: '#f59e0b',
+  missed: '#ef4444',
+  pending: '#e5e7eb',
+};
+
+const STATE_CHIPS = {
+  active: { label: 'In progress', color: 'primary' as const },
+  completed: { label: 'Fulfilled', color: 'success' as const },
+  abandoned: { label: 'Abandoned', color: 'default' as const },
+};
+
+export default function VowTracker({ mantras }: VowTrackerProps) {
+  const [vows, setVows] = useState<Vow[]>([]);
+  const [recitations, setRecitations] = useState<MantraRecitation[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [formData, setFormData] = useState({
+    mantraName: '',
+    startDate: dayjs(todayKey()) as Dayjs | null,
+    durationDays: 40,
+    quotaType: 'daily' as VowQuotaType,
+    quota: 1,
+    missRule: 'restart' as VowMissRule,
+  });
+
+  useEffect(() => {
+    const unsubscribeVows = vowService.subscribe(setVows);
+    const unsubscribeRecitations = recitationService.subscribe(setRecitations);
+    return () => {
+      unsubscribeVows();
+      unsubscribeRecitations();
+    };
+  }, []);
+
+  const evaluations = useMemo(
+    () => new Map(vows.map(vow => [vow.id, evaluateVow(vow, recitations)])),
+    [vows, recitations]
+  );
+
+  // Active vows first, then the most recently taken
+  const sortedVows = useMemo(
+    () => vows.slice().sort((a, b) => {
+      const activeA = evaluations.get(a.id)?.state === 'active' ? 0 : 1;
+      const activeB = evaluations.get(b.id)?.state === 'active' ? 0 : 1;
+      return activeA - activeB || b.createdAt.getTime() - a.createdAt.getTime();
+    }),
+    [vows, evaluations]
+  );
+
+  const openDialog = () => {
+    const mantra = mantras[0];
+    setFormData({
+      mantraName: mantra?.name || '',
+      startDate: dayjs(todayKey()),
+      durationDays: 40,
+      quotaType: 'daily',
+      quota: mantra?.traditionalCount && mantra.traditionalCount <= 1008 ? mantra.traditionalCount : 1,
+      missRule: 'restart',
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.mantraName || !formData.startDate || formData.durationDays <= 0 || formData.quota <= 0) return;
+
+    const mantra = mantras.find(m => m.name === formData.mantraName);
+    await vowService.addVow({
+      mantraId: mantra?.id,
+      mantraName: formData.mantraName,
+      startDate: formData.startDate.format('YYYY-MM-DD'),
+      durationDays: formData.durationDays,
+      quotaType: formData.quotaType,
+      quota: formData.quota,
+      missRule: formData.missRule,
+    });
+    setDialogOpen(false);
+  };
+
+  const describeVow = (vow: Vow) => (vow.quotaType === 'daily'
+    ? `${vow.quota.toLocaleString()} × ${vow.mantraName} daily for ${vow.durationDays} days`
+    : `${vow.quota.toLocaleString()} ${vow.mantraName} over ${vow.durationDays} days`);
+
+  const handleAbandon = (vow: Vow) => {
+    if (window.confirm(`Give up the vow of ${describeVow(vow)}?`)) {
+      vowService.abandonVow(vow.id);
+    }
+  };
+
+  const handleDelete = (vow: Vow) => {
+    if (window.confirm(`Delete the vow of ${describeVow(vow)}? Its record will be lost.`)) {
+      vowService.deleteVow(vow.id);
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+        <Typography variant="h6">
+          Vows (Anushthan / Sankalp)
+        </Typography>
+        <Button size="small" variant="outlined" startIcon={<AddIcon />} onClick={openDialog}>
+          Take a Vow
+        </Button>
+      </Box>
+      <Typography variant="body2" color="textSecondary" sx={{ mb: 3 }}>
+        Commit to a fixed-length practice, checked each day against your logged recitations
+      </Typography>
+
+      {sortedVows.length === 0 && (
+        <Typography variant="body2" color="textSecondary">
+          No vows yet, e.g. Japji Sahib daily for 40 days, or 1.25 lakh Waheguru jaap over 90 days.
+        </Typography>
+      )}
+
+      {sortedVows.map(vow => {
+        const evaluation = evaluations.get(vow.id)!;
+        const progress = vow.quotaType === 'daily'
+          ? Math.min(100, Math.round((evaluation.daysDone / vow.durationDays) * 100))
+          : Math.min(100, Math.round((evaluation.totalCount / vow.quota) * 100));
+
+        return (
+          <Paper key={vow.id} variant="outlined" sx={{ p: 2, mb: 2 }}>
+            <Box display="flex" justifyContent="space-between" alignItems="flex-start" gap={1}>
+              <Box>
+                <Typography variant="subtitle1">{describeVow(vow)}</Typography>
+                <Typography variant="body2" color="textSecondary">
+                  {dayjs(evaluation.currentStart).format('MMM D, YYYY')} – {dayjs(evaluation.endDate).format('MMM D, YYYY')}
+                  {' • '}{vow.missRule === 'restart' ? 'Restarts on a missed day' : 'Extends on a missed day'}
+                </Typography>
+              </Box>
+              <Box display="flex" alignItems="center" gap={0.5}>
+                <Chip label={STATE_CHIPS[evaluation.state].label} color={STATE_CHIPS[evaluation.state].color} size="small" />
+                {evaluation.state === 'active' && (
+                  <Tooltip title="Give up">
+                    <IconButton size="small" onClick={() => handleAbandon(vow)}>
+                      <AbandonIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <Tooltip title="Delete">
+                  <IconButton size="small" onClick={() => handleDelete(vow)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            </Box>
+
+            <LinearProgress
+              variant="determinate"
+              value={progress}
+              color={evaluation.state === 'completed' ? 'success' : 'primary'}
+              sx={{ height: 8, borderRadius: 4, my: 1 }}
+            />
+            <Typography variant="body2">
+              {vow.quotaType === 'daily'
+                ? `${evaluation.daysDone} of ${vow.durationDays} days done`
+                : `${evaluation.totalCount.toLocaleString()} of ${vow.quota.toLocaleString()} ` +
+                  `(about ${getDailyTarget(vow).toLocaleString()} a day)`}
+              {evaluation.restarts > 0 && ` • restarted ${evaluation.restarts}×`}
+              {evaluation.extensions > 0 && ` • extended ${evaluation.extensions} ${evaluation.extensions === 1 ? 'day' : 'days'}`}
+            </Typography>
+
+            {/* Day-by-day status */}
+            <Box display="flex" flexWrap="wrap" gap={0.5} mt={1.5}>
+              {evaluation.days.map(day => (
+                <Tooltip
+                  key={day.date}
+                  title={`${dayjs(day.date).format('ddd, MMM D')}: ${day.status}` +
+                    (day.count > 0 ? ` (${day.count.toLocaleString()})` : '')}
+                >
+                  <Box
+                    sx={{
+                      width: 14,
+                      height: 14,
+                      borderRadius: '3px',
+                      bgcolor: DAY_COLORS[day.status],
+                      opacity: day.date < evaluation.currentStart ? 0.4 : 1,
+                    }}
+                  />
+                </Tooltip>
+              ))}
+            </Box>
+          </Paper>
+        );
+      })}
+
+      <Dialog open={dialogOpen} onClose={() => setDialogOpen(false)} maxWidth="sm" fullWidth>
+        <form onSubmit={handleSubmit}>
+          <DialogTitle>Take a Vow</DialogTitle>
+          <DialogContent>
+            <Box display="flex" flexDirection="column" gap={2} sx={{ mt: 1 }}>
+              <FormControl fullWidth>
+                <InputLabel>Mantra</InputLabel>
+                <Select
+                  value={formData.mantraName}
+                  label="Mantra"
+                  onChange={(e) => setFormData({ ...formData, mantraName: e.target.value })}
+                >
+                  {mantras.map(mantra => (
+                    <MenuItem key={mantra.id} value={mantra.name}>{mantra.name}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <DatePicker
+                label="Start date"
+                value={formData.startDate}
+                onChange={(newValue) => setFormData({ ...formData, startDate: newValue })}
+                slotProps={{ textField: { fullWidth: true } }}
+              />
+              <TextField
+                fullWidth
+                label="Duration (days)"
+                type="number"
+                value={formData.durationDays}
+                onChange={(e) => setFormData({ ...formData, durationDays: Number(e.target.value) })}
+                inputProps={{ min: 1 }}
+                required
+              />
+              <FormControl fullWidth>
+                <InputLabel>Quota</InputLabel>
+                <Select
+                  value={formData.quotaType}
+                  label="Quota"
+                  onChange={(e) => {
+                    const quotaType = e.target.value as VowQuotaType;
+                    setFormData({ ...formData, quotaType, quota: quotaType === 'total' ? 125000 : 1 });
+                  }}
+                >
+                  <MenuItem value="daily">Every day</MenuItem>
+                  <MenuItem value="total">Total over the vow</MenuItem>
+                </Select>
+              </FormControl>
+              <TextField
+                fullWidth
+                label={formData.quotaType === 'daily' ? 'Repetitions per day' : 'Total repetitions'}
+                type="number"
+                value={formData.quota}
+                onChange={(e) => setFormData({ ...formData, quota: Number(e.target.value) })}
+                inputProps={{ min: 1 }}
+                required
+              />
+              <FormControl fullWidth>
+                <InputLabel>If a day is missed</InputLabel>
+                <Select
+                  value={formData.missRule}
+                  label="If a day is missed"
+                  onChange={(e) => setFormData({ ...formData, missRule: e.target.value as VowMissRule })}
+                >
+                  <MenuItem value="restart">Start again from day 1</MenuItem>
+                  <MenuItem value="extend">Add a day to the end</MenuItem>
+                </Select>
+              </FormControl>
+            </Box>
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button type="submit" variant="contained" disabled={!formData.mantraName}>
+              Take Vow
+            </Button>
+          </DialogActions>
+        </form>
+      </Dialog>
+    </Box>
+  );
+}
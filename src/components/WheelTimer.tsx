@@ -33,34 +33,36 @@ export default function WheelTimer({ label, value, onChange, size = 'medium' }:
     }
   }, [value]);
 
-  // Update parent when time changes
-  useEffect(() => {
-    let hour24 = hours;
-    if (period === 'PM' && hours !== 12) hour24 += 12;
-    if (period === 'AM' && hours === 12) hour24 = 0;
-    
-    const timeString = `${hour24.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')} ${period}`;
+  // Update parent only on user changes, so mounting or re-rendering never overwrites the stored time
+  const emitChange = (h: number, m: number, p: 'AM' | 'PM') => {
+    let hour24 = h;
+    if (p === 'PM' && h !== 12) hour24 += 12;
+    if (p === 'AM' && h === 12) hour24 = 0;
+
+    const timeString = `${hour24.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')} ${p}`;
     onChange(timeString);
-  }, [hours, minutes, period, onChange]);
+  };
 
   const adjustHours = (direction: 'up' | 'down') => {
-    if (direction === 'up') {
-      setHours(hours === 12 ? 1 : hours + 1);
-    } else {
-      setHours(hours === 1 ? 12 : hours - 1);
-    }
+    const next = direction === 'up'
+      ? (hours === 12 ? 1 : hours + 1)
+      : (hours === 1 ? 12 : hours - 1);
+    setHours(next);
+    emitChange(next, minutes, period);
   };
 
   const adjustMinutes = (direction: 'up' | 'down') => {
-    if (direction === 'up') {
-      setMinutes(minutes === 59 ? 0 : minutes + 1);
-    } else {
-      setMinutes(minutes === 0 ? 59 : minutes - 1);
-    }
+    const next = direction === 'up'
+      ? (minutes === 59 ? 0 : minutes + 1)
+      : (minutes === 0 ? 59 : minutes - 1);
+    setMinutes(next);
+    emitChange(hours, next, period);
   };
 
   const togglePeriod = () => {
-    setPeriod(period === 'AM' ? 'PM' : 'AM');
+    const next = period === 'AM' ? 'PM' : 'AM';
+    setPeriod(next);
+    emitChange(hours, minutes, next);
   };
 
   const wheelSize = size === 'small' ? 60 : 80;
@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { mantraService, Mantra } from '../services/mantraService';
+
+/**
+ * The shared mantra library, kept current as mantras are added, edited or synced
+ */
+export function useMantras(): Mantra[] {
+  const [mantras, setMantras] = useState<Mantra[]>([]);
+
+  useEffect(() => mantraService.subscribe(setMantras), []);
+
+  return mantras;
+}
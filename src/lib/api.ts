@@ -5,6 +5,17 @@
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:8000';
 
+// Error carrying the HTTP status of a failed request (null for network errors)
+export class ApiError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
 export interface Mantra {
   id: string;
   name: string;
@@ -16,22 +27,40 @@ export interface Mantra {
 export interface Recitation {
   id: string;
   mantra_id: string;
+  mantra_name?: string; // name as logged, the only name free-text ('custom') mantras have
   user_id: string;
   count: number;
   duration_minutes: number;
   recited_at: string;
   notes?: string;
+  client_id?: string; // client-generated UUID the recitation was created with
   created_at: string;
+  updated_at?: string;
+}
+
+// Left behind when a recitation is deleted, so incremental pulls can remove it on other devices
+export interface DeletedRecitation {
+  id: string;
+  client_id?: string;
+  deleted_at: string;
 }
 
 export interface CreateRecitationData {
+  client_id?: string; // client-generated UUID, also sent as the Idempotency-Key header
   mantra_id: string;
+  mantra_name?: string;
   user_id: string;
   count: number;
   duration_minutes: number;
+  recited_at?: string; // ISO timestamp of when the practice happened (defaults to server time)
   notes?: string;
 }
 
+export type UpdateRecitationData = Partial<Omit<CreateRecitationData, 'client_id' | 'user_id'>>;
+
+// The fields of a recitation the client owns, as sent on both create and update
+export type RecitationFields = Omit<CreateRecitationData, 'client_id' | 'user_id'>;
+
 export const api = {
   // Health check
   healthCheck: async (): Promise<{ status: string }> => {
@@ -48,8 +77,9 @@ export const api = {
   },
 
   // Recitations endpoints
-  getRecitations: async (): Promise<{ message: string; data: Recitation[] }> => {
-    const response = await fetch(`${API_BASE_URL}/api/v1/recitations`);
+  getRecitations: async (params?: { since?: string }): Promise<{ message: string; data: Recitation[]; deleted?: DeletedRecitation[] }> => {
+    const query = params?.since ? `?since=${encodeURIComponent(params.since)}` : '';
+    const response = await fetch(`${API_BASE_URL}/api/v1/recitations${query}`);
     if (!response.ok) throw new Error('Failed to fetch recitations');
     return response.json();
   },
@@ -59,12 +89,36 @@ export const api = {
       method: 'POST',
       headers: { 
         'Content-Type': 'application/json',
+        // Lets the backend return the original row when a retried POST was already stored
+        ...(data.client_id ? { 'Idempotency-Key': data.client_id } : {}),
+      },
+      body: JSON.stringify(data)
+    });
+    if (!response.ok) throw new ApiError('Failed to create recitation', response.status);
+    return response.json();
+  },
+
+  updateRecitation: async (id: string, data: UpdateRecitationData): Promise<{ message: string; id: string }> => {
+    const response = await fetch(`${API_BASE_URL}/api/v1/recitations/${encodeURIComponent(id)}`, {
+      method: 'PATCH',
+      headers: {
+        'Content-Type': 'application/json',
       },
       body: JSON.stringify(data)
     });
-    if (!response.ok) throw new Error('Failed to create recitation');
+    if (!response.ok) throw new ApiError('Failed to update recitation', response.status);
     return response.json();
   },
+
+  deleteRecitation: async (id: string): Promise<void> => {
+    const response = await fetch(`${API_BASE_URL}/api/v1/recitations/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    // Already gone counts as deleted, so retries stay idempotent
+    if (!response.ok && response.status !== 404) {
+      throw new ApiError('Failed to delete recitation', response.status);
+    }
+  },
 };
 
 export default api;
\ No newline at end of file
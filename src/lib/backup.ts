@@ -0,0 +1,242 @@
+/**
+ * Full backup and restore of app state
+ * A backup is a single versioned JSON file holding every IndexedDB data store
+ * plus the few settings still kept in localStorage. Older backup versions are
+ * migrated forward on restore.
+ */
+
+import { MantraRecitation, QueuedRecitation, DeadLetterItem, BaniSession } from '../types';
+import { Mantra } from '../services/mantraService';
+import { snapshotRepository, StoreSnapshot, BaniSessionDay, MantraCacheEntry } from './repository';
+import { broadcastChange } from './tabSync';
+import { GRACE_DAYS_KEY } from './streaks';
+
+export const BACKUP_FORMAT = 'mantra-recitation-backup';
+export const BACKUP_VERSION = 5;
+
+// Settings that live outside IndexedDB
+const BACKUP_LOCAL_STORAGE_KEYS = ['syncStatus', 'recitationsLastPulledAt', 'dateSettings', 'googleSheetsWriteBack', 'googleSheetsTabs', GRACE_DAYS_KEY];
+
+export type RestoreMode = 'merge' | 'replace';
+
+interface VersionedBackup<Version extends number, Stores> {
+  format: typeof BACKUP_FORMAT;
+  version: Version;
+  createdAt: string;
+  stores: Stores;
+  localStorage: Record<string, string>;
+}
+
+export type Backup = VersionedBackup<typeof BACKUP_VERSION, StoreSnapshot>;
+
+/**
+ * Version 1 mirrors the original localStorage layout, where every key held a
+ * JSON string: mantraRecitations, userMantras, syncQueue, syncDeadLetter,
+ * syncStatus, baniSessions_<date>, coreMantras and googleSheetsMantras.
+ */
+interface BackupV1 {
+  format: typeof BACKUP_FORMAT;
+  version: 1;
+  createdAt: string;
+  localStorage: Record<string, string>;
+}
+
+type BackupV2 = VersionedBackup<2, Omit<StoreSnapshot, 'goals' | 'vows' | 'sheetQueue'>>;
+type BackupV3 = VersionedBackup<3, Omit<StoreSnapshot, 'vows' | 'sheetQueue'>>;
+type BackupV4 = VersionedBackup<4, Omit<StoreSnapshot, 'sheetQueue'>>;
+
+type AnyBackup = BackupV1 | BackupV2 | BackupV3 | BackupV4 | Backup;
+
+function parseKey<T>(values: Record<string, string>, key: string, fallback: T): T {
+  try {
+    return values[key] ? JSON.parse(values[key]) : fallback;
+  } catch (error) {
+    throw new Error(`Backup key "${key}" is not valid JSON`);
+  }
+}
+
+function migrateV1(backup: BackupV1): BackupV2 {
+  const values = backup.localStorage || {};
+  const baniPrefix = 'baniSessions_';
+
+  const baniSessions: BaniSessionDay[] = Object.keys(values)
+    .filter(key => key.startsWith(baniPrefix))
+    .map(key => ({ date: key.slice(baniPrefix.length), sessions: parseKey<BaniSession[]>(values, key, []) }));
+
+  const mantraCache: MantraCacheEntry[] = ['coreMantras', 'googleSheetsMantras']
+    .map(key => ({ key, cached: parseKey<{ data?: Mantra[]; timestamp?: number } | null>(values, key, null) }))
+    .filter(({ cached }) => cached && Array.isArray(cached.data))
+    .map(({ key, cached }) => ({ key, data: cached!.data!, timestamp: cached!.timestamp || 0 }));
+
+  return {
+    format: BACKUP_FORMAT,
+    version: 2,
+    createdAt: backup.createdAt,
+    stores: {
+      // Records saved before client IDs existed can't be keyed, so they are dropped
+      recitations: parseKey<MantraRecitation[]>(values, 'mantraRecitations', []).filter(r => r.id),
+      syncQueue: parseKey<QueuedRecitation[]>(values, 'syncQueue', []).filter(q => q.id),
+      deadLetter: parseKey<DeadLetterItem[]>(values, 'syncDeadLetter', []).filter(d => d.id),
+      userMantras: parseKey<Mantra[]>(values, 'userMantras', []).filter(m => m.id),
+      baniSessions,
+      mantraCache,
+    },
+    localStorage: values.syncStatus ? { syncStatus: values.syncStatus } : {},
+  };
+}
+
+// Version 3 added goals
+function migrateV2(backup: BackupV2): BackupV3 {
+  return { ...backup, version: 3, stores: { ...backup.stores, goals: [] } };
+}
+
+// Version 4 added vows
+function migrateV3(backup: BackupV3): BackupV4 {
+  return { ...backup, version: 4, stores: { ...backup.stores, vows: [] } };
+}
+
+// Version 5 added the Google Sheet write queue
+function migrateV4(backup: BackupV4): Backup {
+  return { ...backup, version: 5, stores: { ...backup.stores, sheetQueue: [] } };
+}
+
+// Upgrade a backup one version at a time until it is current
+function migrate(backup: AnyBackup): Backup {
+  switch (backup.version) {
+    case 1:
+      return migrate(migrateV1(backup));
+    case 2:
+      return migrate(migrateV2(backup));
+    case 3:
+      return migrate(migrateV3(backup));
+    case 4:
+      return migrate(migrateV4(backup));
+    default:
+      return backup;
+  }
+}
+
+/**
+ * Check the format and schema version of parsed JSON. The stores are only
+ * checked once the backup has been migrated to the current version.
+ */
+function asBackup(value: unknown): AnyBackup {
+  const header = (value && typeof value === 'object' ? value : {}) as { format?: unknown; version?: unknown };
+  if (header.format !== BACKUP_FORMAT) {
+    throw new Error('File is not a mantra recitation backup');
+  }
+  const { version } = header;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Backup has an invalid version');
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(`Backup version ${version} was made by a newer version of the app; please update first`);
+  }
+  return value as AnyBackup;
+}
+
+function validateBackup(backup: Backup) {
+  const { stores } = backup;
+  if (!stores || typeof stores !== 'object') {
+    throw new Error('Backup has no data stores');
+  }
+
+  (['recitations', 'syncQueue', 'deadLetter', 'sheetQueue', 'userMantras', 'baniSessions', 'mantraCache', 'goals', 'vows'] as Array<keyof StoreSnapshot>)
+    .forEach(store => {
+      if (!Array.isArray(stores[store])) {
+        throw new Error(`Backup store "${store}" is missing or not a list`);
+      }
+    });
+
+  stores.recitations.forEach((r, index) => {
+    if (typeof r.id !== 'string' || typeof r.mantraName !== 'string' || typeof r.count !== 'number') {
+      throw new Error(`Recitation ${index + 1} in the backup is malformed`);
+    }
+  });
+  [...stores.syncQueue, ...stores.deadLetter, ...stores.sheetQueue].forEach((item, index) => {
+    if (typeof item.id !== 'string' || !item.recitation) {
+      throw new Error(`Sync queue item ${index + 1} in the backup is malformed`);
+    }
+  });
+  stores.goals.forEach((goal, index) => {
+    if (typeof goal.id !== 'string' || typeof goal.target !== 'number' || typeof goal.type !== 'string') {
+      throw new Error(`Goal ${index + 1} in the backup is malformed`);
+    }
+  });
+  stores.vows.forEach((vow, index) => {
+    if (typeof vow.id !== 'string' || typeof vow.startDate !== 'string' || typeof vow.durationDays !== 'number') {
+      throw new Error(`Vow ${index + 1} in the backup is malformed`);
+    }
+  });
+  stores.baniSessions.forEach(day => {
+    if (typeof day.date !== 'string' || !Array.isArray(day.sessions)) {
+      throw new Error('Bani sessions in the backup are malformed');
+    }
+  });
+
+  if (backup.localStorage && typeof backup.localStorage !== 'object') {
+    throw new Error('Backup settings are malformed');
+  }
+}
+
+/**
+ * Capture every data store and setting in a backup document
+ */
+export async function createBackup(): Promise<Backup> {
+  const values: Record<string, string> = {};
+  BACKUP_LOCAL_STORAGE_KEYS.forEach(key => {
+    const value = localStorage.getItem(key);
+    if (value !== null) values[key] = value;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    stores: await snapshotRepository.read(),
+    localStorage: values,
+  };
+}
+
+/**
+ * Parse a backup file, check its schema version and migrate it to the current version
+ */
+export function parseBackup(text: string): Backup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error('File is not valid JSON');
+  }
+
+  const backup = migrate(asBackup(parsed));
+  validateBackup(backup);
+  return { ...backup, localStorage: backup.localStorage || {} };
+}
+
+/**
+ * Restore a parsed backup. 'replace' discards current data; 'merge' keeps
+ * current records and only adds what is missing.
+ */
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<void> {
+  await snapshotRepository.write(backup.stores, mode);
+
+  BACKUP_LOCAL_STORAGE_KEYS.forEach(key => {
+    const value = backup.localStorage[key];
+    if (mode === 'replace') {
+      if (value !== undefined) {
+        localStorage.setItem(key, value);
+      } else {
+        localStorage.removeItem(key);
+      }
+    } else if (value !== undefined && localStorage.getItem(key) === null) {
+      localStorage.setItem(key, value);
+    }
+  });
+
+  // Other open tabs reload their in-memory state
+  broadcastChange('recitations');
+  broadcastChange('syncQueue');
+  broadcastChange('goals');
+  broadcastChange('vows');
+}
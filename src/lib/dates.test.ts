@@ -0,0 +1,107 @@
+import {
+  addDays,
+  dayTimeToDate,
+  daysBetween,
+  getDateSettings,
+  saveDateSettings,
+  startOfWeek,
+  toDayKey,
+  DEFAULT_DATE_SETTINGS,
+} from './dates';
+import { DateSettings } from '../types';
+
+const newYork: DateSettings = { timeZone: 'America/New_York', dayStartHour: 0 };
+const newYorkAmritVela: DateSettings = { timeZone: 'America/New_York', dayStartHour: 3 };
+
+describe('toDayKey', () => {
+  it('uses the local calendar date by default, not UTC', () => {
+    expect(toDayKey(new Date(2024, 0, 1, 23, 59), DEFAULT_DATE_SETTINGS)).toBe('2024-01-01');
+    expect(toDayKey(new Date(2024, 0, 2, 0, 1), DEFAULT_DATE_SETTINGS)).toBe('2024-01-02');
+  });
+
+  it('uses the configured timezone instead of UTC', () => {
+    // 03:00 UTC is still the previous evening in the Americas
+    expect(toDayKey('2024-01-15T03:00:00Z', { timeZone: 'America/Los_Angeles', dayStartHour: 0 })).toBe('2024-01-14');
+    expect(toDayKey('2024-01-15T03:00:00Z', { timeZone: 'Asia/Kolkata', dayStartHour: 0 })).toBe('2024-01-15');
+  });
+
+  it('keeps days intact across the spring-forward transition', () => {
+    // Clocks jump from 02:00 EST to 03:00 EDT on 2024-03-10
+    expect(toDayKey('2024-03-10T05:30:00Z', newYork)).toBe('2024-03-10'); // 00:30 EST
+    expect(toDayKey('2024-03-10T07:30:00Z', newYork)).toBe('2024-03-10'); // 03:30 EDT
+    expect(toDayKey('2024-03-11T03:59:00Z', newYork)).toBe('2024-03-10'); // 23:59 EDT
+    expect(toDayKey('2024-03-11T04:01:00Z', newYork)).toBe('2024-03-11'); // 00:01 EDT
+  });
+
+  it('keeps days intact across the fall-back transition', () => {
+    // Clocks go back from 02:00 EDT to 01:00 EST on 2024-11-03
+    expect(toDayKey('2024-11-03T03:59:00Z', newYork)).toBe('2024-11-02'); // 23:59 EDT
+    expect(toDayKey('2024-11-03T05:30:00Z', newYork)).toBe('2024-11-03'); // 01:30 EDT
+    expect(toDayKey('2024-11-03T06:30:00Z', newYork)).toBe('2024-11-03'); // 01:30 EST
+    expect(toDayKey('2024-11-04T04:59:00Z', newYork)).toBe('2024-11-03'); // 23:59 EST
+  });
+
+  it('counts practice before the day-start hour toward the previous day', () => {
+    expect(toDayKey('2024-01-15T06:30:00Z', newYorkAmritVela)).toBe('2024-01-14'); // 01:30 EST
+    expect(toDayKey('2024-01-15T08:00:00Z', newYorkAmritVela)).toBe('2024-01-15'); // 03:00 EST
+  });
+
+  it('applies the day-start hour on wall-clock time across DST', () => {
+    expect(toDayKey('2024-03-10T06:59:00Z', newYorkAmritVela)).toBe('2024-03-09'); // 01:59 EST
+    expect(toDayKey('2024-03-10T07:00:00Z', newYorkAmritVela)).toBe('2024-03-10'); // 03:00 EDT
+    expect(toDayKey('2024-11-03T06:30:00Z', newYorkAmritVela)).toBe('2024-11-02'); // 01:30 EST, second pass
+    expect(toDayKey('2024-11-03T08:00:00Z', newYorkAmritVela)).toBe('2024-11-03'); // 03:00 EST
+  });
+});
+
+describe('day arithmetic', () => {
+  it('counts whole days across DST changes', () => {
+    expect(daysBetween('2024-03-09', '2024-03-11')).toBe(2);
+    expect(daysBetween('2024-11-02', '2024-11-04')).toBe(2);
+    expect(daysBetween('2024-01-10', '2024-01-08')).toBe(-2);
+  });
+
+  it('adds days across month, year and DST boundaries', () => {
+    expect(addDays('2024-03-09', 1)).toBe('2024-03-10');
+    expect(addDays('2024-11-03', 1)).toBe('2024-11-04');
+    expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+  });
+
+  it('finds the start of the week in the default locale', () => {
+    // Weeks start on Sunday in the default locale
+    expect(startOfWeek('2024-01-10')).toBe('2024-01-07');
+    expect(startOfWeek('2024-01-07')).toBe('2024-01-07');
+    expect(startOfWeek('2024-03-12')).toBe('2024-03-10');
+  });
+});
+
+describe('dayTimeToDate', () => {
+  it('places a wall-clock time on the practice day in the configured timezone', () => {
+    expect(dayTimeToDate('2024-01-15', 6 * 60 + 30, newYork).toISOString()).toBe('2024-01-15T11:30:00.000Z');
+    expect(dayTimeToDate('2024-03-10', 6 * 60 + 30, newYork).toISOString()).toBe('2024-03-10T10:30:00.000Z');
+  });
+
+  it('puts times before the day-start hour on the next calendar date', () => {
+    expect(dayTimeToDate('2024-01-14', 90, newYorkAmritVela).toISOString()).toBe('2024-01-15T06:30:00.000Z');
+    expect(toDayKey(dayTimeToDate('2024-01-14', 90, newYorkAmritVela), newYorkAmritVela)).toBe('2024-01-14');
+  });
+});
+
+describe('date settings', () => {
+  afterEach(() => {
+    localStorage.clear();
+    saveDateSettings(DEFAULT_DATE_SETTINGS);
+  });
+
+  it('persists the chosen timezone and day-start hour', () => {
+    saveDateSettings(newYorkAmritVela);
+    expect(getDateSettings()).toEqual(newYorkAmritVela);
+    expect(JSON.parse(localStorage.getItem('dateSettings')!)).toEqual(newYorkAmritVela);
+  });
+
+  it('uses the settings for day keys when none are passed', () => {
+    saveDateSettings(newYorkAmritVela);
+    expect(toDayKey('2024-01-15T06:30:00Z')).toBe('2024-01-14');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Practice-day handling
+ * Every daily grouping (streaks, heatmap, goals, vows, bani sessions) goes
+ * through toDayKey so a recitation lands on the same day everywhere. A day is
+ * a calendar date in the user's timezone (the browser's unless one is chosen)
+ * that begins at the configured hour, so amrit vela practice at 2 AM can count
+ * toward the previous day. Day keys are YYYY-MM-DD strings; arithmetic on them
+ * ignores timezones entirely, so DST changes never add or drop a day.
+ */
+
+import dayjs from 'dayjs';
+import utc from 'dayjs/plugin/utc';
+import timezone from 'dayjs/plugin/timezone';
+import { DateSettings } from '../types';
+
+dayjs.extend(utc);
+dayjs.extend(timezone);
+
+const SETTINGS_KEY = 'dateSettings';
+
+export const DEFAULT_DATE_SETTINGS: DateSettings = { timeZone: null, dayStartHour: 0 };
+
+let settings: DateSettings | null = null;
+
+/**
+ * Whether the runtime recognises an IANA timezone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function readSettings(): DateSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!stored) return DEFAULT_DATE_SETTINGS;
+
+    const hour = Number(stored.dayStartHour);
+    return {
+      timeZone: typeof stored.timeZone === 'string' && isValidTimeZone(stored.timeZone) ? stored.timeZone : null,
+      dayStartHour: Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : 0,
+    };
+  } catch {
+    return DEFAULT_DATE_SETTINGS;
+  }
+}
+
+export function getDateSettings(): DateSettings {
+  if (!settings) settings = readSettings();
+  return settings;
+}
+
+export function saveDateSettings(next: DateSettings) {
+  settings = next;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+}
+
+/**
+ * The timezone days are counted in: the chosen one, or the browser's
+ */
+export function getTimeZone(options: DateSettings = getDateSettings()): string {
+  return options.timeZone || dayjs.tz.guess();
+}
+
+/**
+ * Timezones to offer in settings, falling back to the browser's own zone and UTC
+ */
+export function getTimeZoneOptions(): string[] {
+  // Intl.supportedValuesOf isn't in this TypeScript version's lib yet
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  return Array.from(new Set([...zones, dayjs.tz.guess(), 'UTC'])).sort();
+}
+
+// Days since the epoch for a YYYY-MM-DD date, independent of timezone
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / 86400000);
+}
+
+/**
+ * Whole days from one day key to another
+ */
+export function daysBetween(from: string, to: string): number {
+  return dayNumber(to) - dayNumber(from);
+}
+
+/**
+ * Day key a number of days before or after another
+ */
+export function addDays(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * 86400000).toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the week containing a day key, using the locale's first day of the week
+ */
+export function startOfWeek(date: string): string {
+  const weekday = new Date(dayNumber(date) * 86400000).getUTCDay();
+  const firstDay = dayjs().startOf('week').day();
+  return addDays(date, -((weekday - firstDay + 7) % 7));
+}
+
+/**
+ * Practice day a timestamp belongs to
+ */
+export function toDayKey(timestamp: Date | string | number, options: DateSettings = getDateSettings()): string {
+  const zoned = options.timeZone ? dayjs(timestamp).tz(options.timeZone) : dayjs(timestamp);
+  const date = zoned.format('YYYY-MM-DD');
+  // Before the day-start hour still belongs to the previous day
+  return zoned.hour() < options.dayStartHour ? addDays(date, -1) : date;
+}
+
+/**
+ * Today's practice day
+ */
+export function todayKey(options: DateSettings = getDateSettings()): string {
+  return toDayKey(new Date(), options);
+}
+
+/**
+ * Moment a wall-clock time (minutes after midnight) happened on a practice day.
+ * Times before the day-start hour fall on the next calendar date.
+ */
+export function dayTimeToDate(date: string, minutes: number, options: DateSettings = getDateSettings()): Date {
+  const calendarDate = minutes < options.dayStartHour * 60 ? addDays(date, 1) : date;
+  const clock = `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+  const local = `${calendarDate}T${clock}`;
+  return options.timeZone ? dayjs.tz(local, options.timeZone).toDate() : dayjs(local).toDate();
+}
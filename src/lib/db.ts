@@ -0,0 +1,152 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ * Opens the app database, creates object stores and indexes, and exposes
+ * small typed helpers used by the repository layer.
+ */
+
+const DB_NAME = 'mantra-recitation';
+const DB_VERSION = 4;
+
+export type StoreName =
+  | 'recitations'
+  | 'syncQueue'
+  | 'deadLetter'
+  | 'sheetQueue'
+  | 'userMantras'
+  | 'baniSessions'
+  | 'mantraCache'
+  | 'goals'
+  | 'vows'
+  | 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const recitations = db.createObjectStore('recitations', { keyPath: 'id' });
+    recitations.createIndex('timestamp', 'timestamp');
+    recitations.createIndex('mantraId', 'mantraId');
+    recitations.createIndex('mantraName', 'mantraName');
+
+    db.createObjectStore('syncQueue', { keyPath: 'id' });
+    db.createObjectStore('deadLetter', { keyPath: 'id' });
+    db.createObjectStore('userMantras', { keyPath: 'id' });
+    db.createObjectStore('baniSessions', { keyPath: 'date' });
+    db.createObjectStore('mantraCache', { keyPath: 'key' });
+    db.createObjectStore('meta', { keyPath: 'key' });
+  }
+
+  if (oldVersion < 2) {
+    db.createObjectStore('goals', { keyPath: 'id' });
+  }
+
+  if (oldVersion < 3) {
+    db.createObjectStore('vows', { keyPath: 'id' });
+  }
+
+  if (oldVersion < 4) {
+    db.createObjectStore('sheetQueue', { keyPath: 'id' });
+  }
+}
+
+/**
+ * Open (and upgrade if needed) the app database, reusing a single connection
+ */
+export function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade the schema
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => console.warn('Database upgrade blocked by another open tab');
+  });
+
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run a function inside a transaction and resolve once the transaction commits
+ */
+export async function transact<T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => T | Promise<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+  const result = await fn(tx);
+  await done;
+  return result;
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  return transact(store, 'readonly', tx => promisify<T[]>(tx.objectStore(store).getAll()));
+}
+
+export async function getAllByIndex<T>(store: StoreName, index: string, query?: IDBKeyRange | IDBValidKey): Promise<T[]> {
+  return transact(store, 'readonly', tx => promisify<T[]>(tx.objectStore(store).index(index).getAll(query)));
+}
+
+export async function getOne<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return transact(store, 'readonly', tx => promisify<T | undefined>(tx.objectStore(store).get(key)));
+}
+
+export async function putMany<T>(store: StoreName, values: T[]): Promise<void> {
+  return transact(store, 'readwrite', tx => {
+    const objectStore = tx.objectStore(store);
+    values.forEach(value => objectStore.put(value));
+  });
+}
+
+export async function putOne<T>(store: StoreName, value: T): Promise<void> {
+  return putMany(store, [value]);
+}
+
+export async function deleteMany(store: StoreName, keys: IDBValidKey[]): Promise<void> {
+  return transact(store, 'readwrite', tx => {
+    const objectStore = tx.objectStore(store);
+    keys.forEach(key => objectStore.delete(key));
+  });
+}
+
+export async function deleteOne(store: StoreName, key: IDBValidKey): Promise<void> {
+  return deleteMany(store, [key]);
+}
+
+export async function clearStore(store: StoreName): Promise<void> {
+  return transact(store, 'readwrite', tx => {
+    tx.objectStore(store).clear();
+  });
+}
@@ -0,0 +1,61 @@
+import { recitationsToCsv, CSV_COLUMNS } from './exportData';
+import { parseCsv, guessColumnMapping, csvRowsToRecords, buildImportPreview } from './importData';
+import { MantraRecitation } from '../types';
+import { Mantra } from '../services/mantraService';
+
+function csvLines(recitations: MantraRecitation[]): string[] {
+  return recitationsToCsv(recitations).split('\r\n');
+}
+
+describe('recitationsToCsv', () => {
+  it('writes a header row and quotes cells with commas, quotes or line breaks', () => {
+    const lines = csvLines([{
+      id: 'r1',
+      mantraName: 'Waheguru, Waheguru',
+      count: 108,
+      duration: 20,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 6)),
+      notes: 'said "slowly"',
+      syncState: 'synced',
+    }]);
+
+    expect(lines[0]).toBe(CSV_COLUMNS.join(','));
+    expect(lines[1]).toBe('"Waheguru, Waheguru",108,20,2024-01-01T06:00:00.000Z,"said ""slowly""",synced,r1');
+  });
+
+  it('prefixes text that a spreadsheet would run as a formula', () => {
+    const lines = csvLines([
+      { id: 'r1', mantraName: '=HYPERLINK("http://example.com")', count: 1, notes: '+1 extra' },
+      { id: 'r2', mantraName: '@SUM(A1)', count: 1, notes: '-not a number' },
+    ]);
+
+    expect(lines[1]).toBe(`"'=HYPERLINK(""http://example.com"")",1,,,'+1 extra,,r1`);
+    expect(lines[2]).toBe(`'@SUM(A1),1,,,'-not a number,,r2`);
+  });
+
+  it('leaves numbers alone', () => {
+    expect(csvLines([{ id: 'r1', mantraName: 'Japji Sahib', count: -1 }])[1]).toBe('Japji Sahib,-1,,,,,r1');
+  });
+});
+
+describe('CSV export and import', () => {
+  it('reads formula-guarded cells back as they were written', () => {
+    const library: Mantra[] = [{ id: 'm1', name: '+Om Namah', source: 'user' }];
+    const exported: MantraRecitation[] = [
+      { id: 'r1', mantraId: 'm1', mantraName: '+Om Namah', count: 108, timestamp: new Date(Date.UTC(2024, 0, 1, 6)), notes: '-tired' },
+      { id: 'r2', mantraName: '@home', count: 11, timestamp: new Date(Date.UTC(2024, 0, 2, 6)), notes: "=1+1, said 'twice'" },
+    ];
+
+    const [headers, ...rows] = parseCsv(recitationsToCsv(exported));
+    const preview = buildImportPreview(csvRowsToRecords(rows, guessColumnMapping(headers)), library, []);
+
+    expect(preview.rows.map(r => r.recitation && {
+      mantraId: r.recitation.mantraId,
+      mantraName: r.recitation.mantraName,
+      notes: r.recitation.notes,
+    })).toEqual([
+      { mantraId: 'm1', mantraName: '+Om Namah', notes: '-tired' },
+      { mantraId: 'custom', mantraName: '@home', notes: "=1+1, said 'twice'" },
+    ]);
+  });
+});
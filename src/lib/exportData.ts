@@ -0,0 +1,98 @@
+/**
+ * Recitation export helpers
+ * Serialises recitations to CSV (for spreadsheets) and to a versioned JSON
+ * document that the importer can read back.
+ */
+
+import { MantraRecitation, RecitationSyncState } from '../types';
+
+export const EXPORT_FORMAT = 'mantra-recitation-export';
+export const EXPORT_VERSION = 1;
+
+export interface ExportedRecitation {
+  id: string;
+  mantraId?: string;
+  mantraName: string;
+  count: number;
+  duration?: number;
+  timestamp?: string;
+  notes?: string;
+  syncState?: RecitationSyncState;
+}
+
+export interface RecitationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  filters?: Record<string, string>;
+  recitations: ExportedRecitation[];
+}
+
+export const CSV_COLUMNS = ['mantra', 'count', 'duration', 'timestamp', 'notes', 'syncState', 'id'] as const;
+
+function toExported(recitation: MantraRecitation): ExportedRecitation {
+  return {
+    id: recitation.id,
+    mantraId: recitation.mantraId,
+    mantraName: recitation.mantraName,
+    count: recitation.count,
+    duration: recitation.duration,
+    timestamp: recitation.timestamp ? new Date(recitation.timestamp).toISOString() : undefined,
+    notes: recitation.notes,
+    syncState: recitation.syncState,
+  };
+}
+
+function escapeCsv(value: string | number | undefined): string {
+  if (value === undefined || value === null) return '';
+  // Keep user-entered text from being run as a formula when the file is opened in a spreadsheet
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise recitations to CSV with a header row
+ */
+export function recitationsToCsv(recitations: MantraRecitation[]): string {
+  const rows = recitations.map(toExported).map(r => [
+    r.mantraName,
+    r.count,
+    r.duration,
+    r.timestamp,
+    r.notes,
+    r.syncState,
+    r.id,
+  ].map(escapeCsv).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Serialise recitations to the versioned JSON export format
+ */
+export function recitationsToJson(recitations: MantraRecitation[], filters?: Record<string, string>): string {
+  const payload: RecitationExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    filters: filters && Object.keys(filters).length > 0 ? filters : undefined,
+    recitations: recitations.map(toExported),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+/**
+ * Trigger a browser download for generated file contents
+ */
+export function downloadFile(filename: string, contents: string, mimeType: string) {
+  // Prefix CSV with a BOM so spreadsheet apps detect UTF-8 (Gurmukhi, Devanagari, etc.)
+  const blob = new Blob([mimeType === 'text/csv' ? '\uFEFF' + contents : contents], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,160 @@
+/**
+ * Goal progress, projections and completion history
+ * Everything is derived from recitations on each render, so editing or
+ * deleting a recitation is reflected in goals immediately.
+ */
+
+import { Goal, GoalProgress, GoalCompletion, MantraRecitation } from '../types';
+import { addDays, daysBetween, startOfWeek, toDayKey, todayKey } from './dates';
+
+// Recent window used to estimate the practice pace for projections
+const PACE_WINDOW_DAYS = 28;
+
+export const GOAL_TYPE_LABELS: Record<Goal['type'], string> = {
+  'daily-count': 'Daily count',
+  'weekly-sessions': 'Weekly sessions',
+  'lifetime-total': 'Lifetime total',
+};
+
+/**
+ * Whether a recitation is of the given mantra. Prefers the mantra ID, falling
+ * back to the name for free-text and older recitations.
+ */
+export function matchesMantra(target: { mantraId?: string; mantraName: string }, recitation: MantraRecitation): boolean {
+  return target.mantraId && recitation.mantraId && target.mantraId !== 'custom'
+    ? recitation.mantraId === target.mantraId
+    : recitation.mantraName === target.mantraName;
+}
+
+/**
+ * Recitations that count toward a goal: same mantra, on or after the start date
+ */
+export function getGoalRecitations(goal: Goal, recitations: MantraRecitation[]): MantraRecitation[] {
+  return recitations.filter(r =>
+    !!r.timestamp && toDayKey(r.timestamp) >= goal.startDate && matchesMantra(goal, r)
+  );
+}
+
+function sumByDate(recitations: MantraRecitation[], value: (r: MantraRecitation) => number): Map<string, number> {
+  const totals = new Map<string, number>();
+  recitations.forEach(r => {
+    const date = toDayKey(r.timestamp!);
+    totals.set(date, (totals.get(date) || 0) + value(r));
+  });
+  return totals;
+}
+
+// The unit a goal measures: repetitions for counts, sessions (recitations) for weekly goals
+function goalValue(goal: Goal): (r: MantraRecitation) => number {
+  return goal.type === 'weekly-sessions' ? () => 1 : r => r.count;
+}
+
+// Average amount per day over the recent window, counting days since the goal started if shorter
+function recentPace(goal: Goal, totals: Map<string, number>, today: string): number {
+  const windowStart = addDays(today, -(PACE_WINDOW_DAYS - 1));
+  const from = goal.startDate > windowStart ? goal.startDate : windowStart;
+  const days = daysBetween(from, today) + 1;
+
+  let total = 0;
+  totals.forEach((value, date) => {
+    if (date >= from && date <= today) total += value;
+  });
+  return days > 0 ? total / days : 0;
+}
+
+/**
+ * Progress in the current period (today, this week or all time) and when the
+ * target should be reached at the recent pace. The projection is null when
+ * the current period will end first.
+ */
+export function getGoalProgress(goal: Goal, recitations: MantraRecitation[], today = todayKey()): GoalProgress {
+  const totals = sumByDate(getGoalRecitations(goal, recitations), goalValue(goal));
+
+  let periodStart = goal.startDate;
+  let periodEnd: string | null = null;
+  if (goal.type === 'daily-count') {
+    periodStart = today;
+    periodEnd = today;
+  } else if (goal.type === 'weekly-sessions') {
+    periodStart = startOfWeek(today);
+    periodEnd = addDays(periodStart, 6);
+  }
+
+  let current = 0;
+  totals.forEach((value, date) => {
+    if (date >= periodStart && date <= today) current += value;
+  });
+
+  const completed = current >= goal.target;
+  const remaining = goal.target - current;
+  let projectedDate: string | null = null;
+  if (completed) {
+    projectedDate = today;
+  } else if (goal.type === 'daily-count') {
+    // On track for today if a typical recent day covers what's left
+    const yesterday = addDays(today, -1);
+    if (recentPace(goal, totals, yesterday) >= remaining) {
+      projectedDate = today;
+    }
+  } else {
+    const pace = recentPace(goal, totals, today);
+    if (pace > 0) {
+      const projected = addDays(today, Math.ceil(remaining / pace));
+      if (!periodEnd || projected <= periodEnd) {
+        projectedDate = projected;
+      }
+    }
+  }
+
+  return {
+    current,
+    target: goal.target,
+    percent: Math.min(100, goal.target > 0 ? Math.round((current / goal.target) * 100) : 0),
+    completed,
+    periodStart,
+    periodEnd,
+    projectedDate,
+  };
+}
+
+/**
+ * Every period in which the goal's target was met, newest first
+ */
+export function getGoalCompletions(goal: Goal, recitations: MantraRecitation[], today = todayKey()): GoalCompletion[] {
+  const totals = sumByDate(getGoalRecitations(goal, recitations), goalValue(goal));
+  const lastDay = goal.archivedAt && toDayKey(goal.archivedAt) < today ? toDayKey(goal.archivedAt) : today;
+  const dates = Array.from(totals.keys()).filter(date => date <= lastDay).sort();
+  const completion = (period: string, completedOn: string): GoalCompletion => ({
+    goalId: goal.id,
+    mantraName: goal.mantraName,
+    type: goal.type,
+    target: goal.target,
+    period,
+    completedOn,
+  });
+
+  const completions: GoalCompletion[] = [];
+  if (goal.type === 'daily-count') {
+    dates.filter(date => totals.get(date)! >= goal.target).forEach(date => completions.push(completion(date, date)));
+  } else if (goal.type === 'weekly-sessions') {
+    const weekly = new Map<string, number>();
+    dates.forEach(date => {
+      const week = startOfWeek(date);
+      const total = (weekly.get(week) || 0) + totals.get(date)!;
+      // Record the week once, on the day its target was crossed
+      if (total >= goal.target && (weekly.get(week) || 0) < goal.target) {
+        completions.push(completion(week, date));
+      }
+      weekly.set(week, total);
+    });
+  } else {
+    let total = 0;
+    const crossed = dates.find(date => {
+      total += totals.get(date)!;
+      return total >= goal.target;
+    });
+    if (crossed) completions.push(completion(goal.startDate, crossed));
+  }
+
+  return completions.reverse();
+}
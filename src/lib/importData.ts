@@ -0,0 +1,286 @@
+/**
+ * Recitation import helpers
+ * Parses CSV (with a user-chosen column mapping) or the app's JSON export into
+ * recitations, validating each row and flagging duplicates before anything is saved.
+ */
+
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import { MantraRecitation } from '../types';
+import { Mantra } from '../services/mantraService';
+import { EXPORT_FORMAT, EXPORT_VERSION, ExportedRecitation } from './exportData';
+
+dayjs.extend(customParseFormat);
+
+export type ImportField = 'mantra' | 'count' | 'duration' | 'timestamp' | 'notes' | 'id';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+/** A raw row after column mapping, before validation */
+export type ImportRecord = Partial<Record<ImportField, string | number>> & { mantraId?: string };
+
+export type DateFormat = 'iso' | 'MM/DD/YYYY' | 'DD/MM/YYYY';
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; label: string; required: boolean }> = [
+  { field: 'mantra', label: 'Mantra', required: true },
+  { field: 'count', label: 'Count', required: true },
+  { field: 'timestamp', label: 'Date / time', required: true },
+  { field: 'duration', label: 'Duration (min)', required: false },
+  { field: 'notes', label: 'Notes', required: false },
+  { field: 'id', label: 'Recitation ID', required: false },
+];
+
+// Header names recognised when guessing the column mapping
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  mantra: ['mantra', 'mantraname', 'mantra name', 'name', 'bani', 'prayer'],
+  count: ['count', 'repetitions', 'reps', 'times', 'recitations'],
+  timestamp: ['timestamp', 'date', 'datetime', 'date time', 'recited at', 'recitedat', 'when'],
+  duration: ['duration', 'duration (min)', 'duration minutes', 'minutes', 'mins'],
+  notes: ['notes', 'note', 'comment', 'comments'],
+  id: ['id', 'recitation id', 'client id'],
+};
+
+export interface ImportRow {
+  line: number;
+  recitation?: MantraRecitation;
+  errors: string[];
+  warnings: string[];
+  duplicate: boolean;
+}
+
+export interface ImportPreview {
+  rows: ImportRow[];
+  valid: number;
+  invalid: number;
+  duplicates: number;
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines (a single empty field)
+  return rows.filter(r => r.length > 1 || r[0].trim() !== '');
+}
+
+/**
+ * Guess which CSV column holds each field from the header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase().replace(/[_-]/g, ' '));
+  const mapping: ColumnMapping = {};
+
+  (Object.keys(HEADER_ALIASES) as ImportField[]).forEach(field => {
+    const index = normalized.findIndex(h => HEADER_ALIASES[field].includes(h) || HEADER_ALIASES[field].includes(h.replace(/ /g, '')));
+    if (index !== -1) mapping[field] = index;
+  });
+
+  return mapping;
+}
+
+/**
+ * Parse an exported JSON document, throwing if it isn't in a supported format
+ */
+export function parseJsonExport(text: string): ExportedRecitation[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error('File is not valid JSON');
+  }
+
+  // Accept a bare array of recitations as well as the versioned document
+  if (Array.isArray(parsed)) {
+    return parsed as ExportedRecitation[];
+  }
+
+  const payload = parsed as { format?: string; version?: number; recitations?: unknown };
+  if (payload.format !== EXPORT_FORMAT || !Array.isArray(payload.recitations)) {
+    throw new Error('File is not a mantra recitation export');
+  }
+  if (typeof payload.version !== 'number' || payload.version > EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${payload.version}; please update the app`);
+  }
+
+  return payload.recitations as ExportedRecitation[];
+}
+
+// Undo the quote the exporter puts before text a spreadsheet would run as a formula
+function unguardCell(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+/**
+ * Convert mapped CSV rows (without the header) into raw recitation records
+ */
+export function csvRowsToRecords(rows: string[][], mapping: ColumnMapping): ImportRecord[] {
+  return rows.map(row => {
+    const record: ImportRecord = {};
+    (Object.keys(mapping) as ImportField[]).forEach(field => {
+      const index = mapping[field];
+      if (index !== undefined && row[index] !== undefined) {
+        record[field] = unguardCell(row[index].trim());
+      }
+    });
+    return record;
+  });
+}
+
+function parseTimestamp(value: string, dateFormat: DateFormat): Date | null {
+  if (dateFormat === 'iso') {
+    const parsed = dayjs(value);
+    return parsed.isValid() ? parsed.toDate() : null;
+  }
+
+  const formats = [`${dateFormat} HH:mm:ss`, `${dateFormat} HH:mm`, `${dateFormat} h:mm A`, dateFormat];
+  const parsed = dayjs(value, formats, true);
+  return parsed.isValid() ? parsed.toDate() : null;
+}
+
+// Two recitations of the same mantra and count logged in the same minute are the same practice
+function duplicateKey(recitation: Pick<MantraRecitation, 'mantraName' | 'count' | 'timestamp'>): string {
+  const minute = recitation.timestamp ? Math.floor(new Date(recitation.timestamp).getTime() / 60000) : '';
+  return `${recitation.mantraName.toLowerCase()}|${recitation.count}|${minute}`;
+}
+
+/**
+ * Validate raw records and build a dry-run preview against the mantra library
+ * and existing history. Nothing is saved here.
+ */
+export function buildImportPreview(
+  records: ImportRecord[],
+  mantras: Mantra[],
+  existing: MantraRecitation[],
+  options: { dateFormat?: DateFormat; firstLine?: number } = {}
+): ImportPreview {
+  const dateFormat = options.dateFormat || 'iso';
+  const firstLine = options.firstLine ?? 1;
+  const mantrasByName = new Map(mantras.map(m => [m.name.trim().toLowerCase(), m]));
+  const mantrasById = new Map(mantras.map(m => [m.id, m]));
+  const existingIds = new Set(existing.map(r => r.id));
+  const seenKeys = new Set(existing.map(duplicateKey));
+  const seenIds = new Set<string>();
+
+  const rows = records.map((record, index): ImportRow => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const text = (value: string | number | undefined) => (value === undefined || value === null ? '' : String(value).trim());
+
+    const mantraText = text(record.mantra);
+    const mantraIdText = text(record.mantraId);
+    const mantra = mantrasById.get(mantraIdText) || mantrasByName.get(mantraText.toLowerCase());
+    if (!mantraText && !mantra) {
+      errors.push('Missing mantra');
+    } else if (!mantra) {
+      warnings.push(`"${mantraText}" is not in the mantra library; it will be imported as a custom mantra`);
+    }
+
+    const countText = text(record.count);
+    const count = Number(countText);
+    if (!countText) {
+      errors.push('Missing count');
+    } else if (!Number.isInteger(count) || count <= 0) {
+      errors.push(`Count must be a positive whole number (got "${countText}")`);
+    }
+
+    const durationText = text(record.duration);
+    const duration = durationText ? Number(durationText) : undefined;
+    if (duration !== undefined && (!isFinite(duration) || duration <= 0)) {
+      errors.push(`Duration must be a positive number of minutes (got "${durationText}")`);
+    }
+
+    const timestampText = text(record.timestamp);
+    const timestamp = timestampText ? parseTimestamp(timestampText, dateFormat) : null;
+    if (!timestampText) {
+      errors.push('Missing date');
+    } else if (!timestamp) {
+      errors.push(`Unrecognised date "${timestampText}"`);
+    } else if (timestamp.getTime() > Date.now() + 24 * 60 * 60 * 1000) {
+      errors.push('Date is in the future');
+    }
+
+    if (errors.length > 0) {
+      return { line: firstLine + index, errors, warnings, duplicate: false };
+    }
+
+    const id = text(record.id);
+    const recitation: MantraRecitation = {
+      id,
+      mantraId: mantra ? mantra.id : 'custom',
+      mantraName: mantra ? mantra.name : mantraText,
+      count,
+      duration,
+      timestamp: timestamp!,
+      notes: text(record.notes) || undefined,
+      syncState: 'pending',
+    };
+
+    const key = duplicateKey(recitation);
+    const duplicate = (!!id && (existingIds.has(id) || seenIds.has(id))) || seenKeys.has(key);
+    seenKeys.add(key);
+    if (id) seenIds.add(id);
+
+    return { line: firstLine + index, recitation, errors, warnings, duplicate };
+  });
+
+  return {
+    rows,
+    valid: rows.filter(r => r.errors.length === 0 && !r.duplicate).length,
+    invalid: rows.filter(r => r.errors.length > 0).length,
+    duplicates: rows.filter(r => r.duplicate).length,
+  };
+}
+
+/**
+ * Map JSON export entries to the raw record shape used by the preview
+ */
+export function jsonToRecords(recitations: ExportedRecitation[]): ImportRecord[] {
+  return recitations.map(r => ({
+    id: r.id,
+    mantraId: r.mantraId,
+    mantra: r.mantraName,
+    count: r.count,
+    duration: r.duration,
+    timestamp: r.timestamp,
+    notes: r.notes,
+  }));
+}
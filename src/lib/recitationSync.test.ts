@@ -0,0 +1,96 @@
+import { toServerRecitation, fromServerRecitation, mergeServerRecitations } from './recitationSync';
+import { Recitation } from './api';
+import { MantraRecitation } from '../types';
+
+// What the backend returns for a recitation created from these fields
+function stored(serverId: string, clientId: string, fields: ReturnType<typeof toServerRecitation>): Recitation {
+  return {
+    ...fields,
+    id: serverId,
+    client_id: clientId,
+    user_id: 'default-user',
+    recited_at: fields.recited_at!,
+    created_at: '2024-01-01T07:00:00.000Z',
+  };
+}
+
+describe('toServerRecitation', () => {
+  it('falls back to the queue time when the recitation has no timestamp', () => {
+    const fields = toServerRecitation({ id: 'c1', mantraName: 'Waheguru', count: 108 }, Date.UTC(2024, 0, 1, 6));
+    expect(fields).toMatchObject({ mantra_id: 'custom', duration_minutes: 0, recited_at: '2024-01-01T06:00:00.000Z' });
+  });
+});
+
+describe('fromServerRecitation', () => {
+  it('round-trips a free-text mantra name to another device', () => {
+    const logged: MantraRecitation = {
+      id: 'c1',
+      mantraId: 'custom',
+      mantraName: 'Mool Mantar (evening)',
+      count: 11,
+      duration: 5,
+      timestamp: new Date(Date.UTC(2024, 0, 1, 6)),
+      notes: 'by the river',
+    };
+
+    const pulled = fromServerRecitation(stored('s1', 'c1', toServerRecitation(logged, Date.now())), new Map());
+
+    expect(pulled).toEqual({ ...logged, serverId: 's1', syncState: 'synced' });
+  });
+
+  it('names library mantras from the library', () => {
+    const logged: MantraRecitation = { id: 'c2', mantraId: 'm1', mantraName: 'Japji', count: 1, timestamp: new Date() };
+    const pulled = fromServerRecitation(stored('s2', 'c2', toServerRecitation(logged, Date.now())), new Map([['m1', 'Japji Sahib']]));
+    expect(pulled.mantraName).toBe('Japji Sahib');
+  });
+
+  it('falls back to the mantra ID for rows stored without a name', () => {
+    const row: Recitation = {
+      id: 's3',
+      mantra_id: 'm9',
+      user_id: 'default-user',
+      count: 108,
+      duration_minutes: 0,
+      recited_at: '2024-01-01T06:00:00.000Z',
+      created_at: '2024-01-01T06:00:00.000Z',
+    };
+    expect(fromServerRecitation(row, new Map())).toMatchObject({ id: 's3', mantraName: 'm9', duration: undefined });
+  });
+});
+
+describe('mergeServerRecitations', () => {
+  const synced = (id: string, serverId: string, count = 108): MantraRecitation => ({
+    id, serverId, mantraId: 'm1', mantraName: 'Waheguru', count, timestamp: new Date(Date.UTC(2024, 0, 1)), syncState: 'synced',
+  });
+
+  it('adds new records and applies server edits to synced ones', () => {
+    const { changed, removed } = mergeServerRecitations(
+      [synced('c1', 's1')],
+      [synced('c1', 's1', 54), synced('c2', 's2')]
+    );
+    expect(changed.map(r => [r.id, r.count])).toEqual([['c1', 54], ['c2', 108]]);
+    expect(removed).toEqual([]);
+  });
+
+  it('keeps local records with unsynced changes', () => {
+    const { changed } = mergeServerRecitations(
+      [{ ...synced('c1', 's1', 27), syncState: 'pending' }],
+      [synced('c1', 's1', 54)]
+    );
+    expect(changed).toEqual([]);
+  });
+
+  it('removes recitations deleted on another device, matched by client or server ID', () => {
+    const { changed, removed } = mergeServerRecitations(
+      [synced('c1', 's1'), { ...synced('c2', 's2'), syncState: 'pending' }, synced('c3', 's3')],
+      [synced('c1', 's1', 54)],
+      [
+        { id: 's1', client_id: 'c1', deleted_at: '2024-01-02T00:00:00Z' },
+        { id: 's2', deleted_at: '2024-01-02T00:00:00Z' },
+        { id: 's9', client_id: 'c9', deleted_at: '2024-01-02T00:00:00Z' },
+      ]
+    );
+    expect(removed).toEqual(['c1', 'c2']);
+    expect(changed).toEqual([]);
+  });
+});
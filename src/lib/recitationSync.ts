@@ -0,0 +1,98 @@
+/**
+ * Mapping and merging between local recitations and the backend's recitation records
+ * The backend stores snake_case rows keyed by its own ID; the client keeps its
+ * own UUID in client_id so both sides can match a recitation across devices.
+ */
+
+import { MantraRecitation } from '../types';
+import { Recitation, RecitationFields, DeletedRecitation } from './api';
+
+export interface MergeResult {
+  changed: MantraRecitation[]; // Added or updated, to be saved
+  removed: string[]; // Local IDs of recitations deleted on another device
+}
+
+/**
+ * The fields sent when a recitation is created or updated on the backend.
+ * `queuedAt` stands in for a missing timestamp so the server never records the sync time.
+ */
+export function toServerRecitation(recitation: MantraRecitation, queuedAt: number): RecitationFields {
+  return {
+    mantra_id: recitation.mantraId || 'custom',
+    mantra_name: recitation.mantraName,
+    count: recitation.count,
+    duration_minutes: recitation.duration || 0,
+    recited_at: new Date(recitation.timestamp || queuedAt).toISOString(),
+    notes: recitation.notes,
+  };
+}
+
+/**
+ * A backend record as a local recitation. Library mantras take their current
+ * name from the library; anything else keeps the name it was logged with.
+ */
+export function fromServerRecitation(recitation: Recitation, namesById: Map<string, string>): MantraRecitation {
+  return {
+    id: recitation.client_id || recitation.id,
+    serverId: recitation.id,
+    mantraId: recitation.mantra_id,
+    mantraName: namesById.get(recitation.mantra_id) || recitation.mantra_name || recitation.mantra_id,
+    count: recitation.count,
+    duration: recitation.duration_minutes || undefined,
+    timestamp: new Date(recitation.recited_at),
+    notes: recitation.notes || undefined,
+    syncState: 'synced',
+  };
+}
+
+/**
+ * Merge server records into local history. Records are matched on the client ID or
+ * server ID. Local records that still have unsynced changes win over server edits;
+ * otherwise the server copy wins, so every device converges. A server deletion wins
+ * over everything, since an edit to a deleted row has nowhere to go.
+ */
+export function mergeServerRecitations(
+  local: MantraRecitation[],
+  remote: MantraRecitation[],
+  deleted: DeletedRecitation[] = []
+): MergeResult {
+  const findLocal = (id: string, serverId?: string) => local.find(r =>
+    r.id === id || (!!serverId && r.serverId === serverId)
+  );
+
+  const removed = new Set<string>();
+  deleted.forEach(tombstone => {
+    const match = findLocal(tombstone.client_id || tombstone.id, tombstone.id);
+    if (match) removed.add(match.id);
+  });
+
+  const changed: MantraRecitation[] = [];
+  remote.forEach(serverRecitation => {
+    const existing = findLocal(serverRecitation.id, serverRecitation.serverId);
+    if (existing && removed.has(existing.id)) {
+      return;
+    }
+
+    if (!existing) {
+      changed.push(serverRecitation);
+      return;
+    }
+
+    if (existing.syncState === 'pending' || existing.syncState === 'failed') {
+      return;
+    }
+
+    const updated: MantraRecitation = {
+      ...existing,
+      ...serverRecitation,
+      id: existing.id,
+      // Rows created before names were sent only know 'custom' for free-text mantras
+      mantraName: serverRecitation.mantraName === 'custom' ? existing.mantraName : serverRecitation.mantraName,
+    };
+    if (JSON.stringify(updated) !== JSON.stringify(existing)) {
+      changed.push(updated);
+    }
+  });
+
+  return { changed, removed: Array.from(removed) };
+}
@@ -0,0 +1,453 @@
+/**
+ * Typed repositories over the IndexedDB stores
+ * All app data (recitations, sync queue, user mantras, bani sessions, goals,
+ * vows and mantra caches) is read and written through these helpers. Dates are revived
+ * on the way out, and the legacy localStorage keys are migrated once.
+ */
+
+import { MantraRecitation, QueuedRecitation, DeadLetterItem, BaniSession, Goal, Vow } from '../types';
+import { Mantra } from '../services/mantraService';
+import { SheetSnapshot, SheetsRefresh } from './sheetImport';
+import {
+  openDb,
+  transact,
+  getAll,
+  getAllByIndex,
+  getOne,
+  putOne,
+  putMany,
+  deleteOne,
+  deleteMany,
+  clearStore,
+} from './db';
+
+export interface MantraCacheEntry {
+  key: string;
+  data: Mantra[];
+  timestamp: number;
+  // Google Sheets only: each tab as last read, and what the last refresh changed
+  sheets?: Record<string, SheetSnapshot>;
+  lastRefresh?: SheetsRefresh;
+}
+
+export interface BaniSessionDay {
+  date: string;
+  sessions: BaniSession[];
+}
+
+// ---------------------------------------------------------------------------
+// Date revival
+// ---------------------------------------------------------------------------
+
+function toDate(value: unknown): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+export function reviveRecitation(recitation: MantraRecitation): MantraRecitation {
+  const timestamp = toDate(recitation.timestamp);
+  const revived = { ...recitation, timestamp };
+  if (!timestamp) delete revived.timestamp;
+  return revived;
+}
+
+/**
+ * Oldest first; recitations without a timestamp sort to the start
+ */
+export function compareRecitationTime(a: MantraRecitation, b: MantraRecitation): number {
+  return (a.timestamp ? new Date(a.timestamp).getTime() : 0) - (b.timestamp ? new Date(b.timestamp).getTime() : 0);
+}
+
+function reviveQueued<T extends QueuedRecitation>(item: T): T {
+  return { ...item, recitation: reviveRecitation(item.recitation) };
+}
+
+function reviveGoal(goal: Goal): Goal {
+  const archivedAt = toDate(goal.archivedAt);
+  const revived = { ...goal, createdAt: toDate(goal.createdAt) || new Date(0), archivedAt };
+  if (!archivedAt) delete revived.archivedAt;
+  return revived;
+}
+
+function reviveVow(vow: Vow): Vow {
+  const abandonedAt = toDate(vow.abandonedAt);
+  const revived = { ...vow, createdAt: toDate(vow.createdAt) || new Date(0), abandonedAt };
+  if (!abandonedAt) delete revived.abandonedAt;
+  return revived;
+}
+
+function reviveMantra(mantra: Mantra): Mantra {
+  const submittedAt = toDate(mantra.submittedAt);
+  const revived = { ...mantra, submittedAt };
+  if (!submittedAt) delete revived.submittedAt;
+  return revived;
+}
+
+// ---------------------------------------------------------------------------
+// One-time migration from localStorage
+// ---------------------------------------------------------------------------
+
+const MIGRATION_KEY = 'localStorageMigrated';
+const LEGACY_BANI_PREFIX = 'baniSessions_';
+
+let readyPromise: Promise<void> | null = null;
+
+function readLegacy<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error(`Error reading legacy key ${key}:`, error);
+    return null;
+  }
+}
+
+async function migrateFromLocalStorage(): Promise<void> {
+  await openDb();
+  if (typeof localStorage === 'undefined') return;
+
+  const legacyKeys: string[] = [];
+  const recitations = readLegacy<MantraRecitation[]>('mantraRecitations') || [];
+  const queue = readLegacy<QueuedRecitation[]>('syncQueue') || [];
+  const deadLetter = readLegacy<DeadLetterItem[]>('syncDeadLetter') || [];
+  const userMantras = readLegacy<Mantra[]>('userMantras') || [];
+  const caches = ['coreMantras', 'googleSheetsMantras']
+    .map(key => ({ key, cached: readLegacy<{ data: Mantra[]; timestamp: number }>(key) }))
+    .filter(entry => entry.cached && Array.isArray(entry.cached.data));
+
+  const baniDays: BaniSessionDay[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(LEGACY_BANI_PREFIX)) {
+      const sessions = readLegacy<BaniSession[]>(key);
+      if (sessions) baniDays.push({ date: key.slice(LEGACY_BANI_PREFIX.length), sessions });
+      legacyKeys.push(key);
+    }
+  }
+
+  const migrated = await transact(
+    ['recitations', 'syncQueue', 'deadLetter', 'userMantras', 'baniSessions', 'mantraCache', 'meta'],
+    'readwrite',
+    tx => new Promise<boolean>((resolve, reject) => {
+      // Checked inside the write transaction so two tabs can't both migrate
+      const check = tx.objectStore('meta').get(MIGRATION_KEY);
+      check.onerror = () => reject(check.error);
+      check.onsuccess = () => {
+        if (check.result) {
+          resolve(false);
+          return;
+        }
+
+        // Legacy records queued before client IDs existed have no usable ID
+        recitations.filter(r => r.id).forEach(r => tx.objectStore('recitations').put(reviveRecitation(r)));
+        queue.filter(q => q.id).forEach(q => tx.objectStore('syncQueue').put(reviveQueued(q)));
+        deadLetter.filter(d => d.id).forEach(d => tx.objectStore('deadLetter').put(reviveQueued(d)));
+        userMantras.filter(m => m.id).forEach(m => tx.objectStore('userMantras').put(reviveMantra(m)));
+        baniDays.forEach(day => tx.objectStore('baniSessions').put(day));
+        caches.forEach(({ key, cached }) => tx.objectStore('mantraCache').put({ key, ...cached }));
+        tx.objectStore('meta').put({ key: MIGRATION_KEY, value: Date.now() });
+        resolve(true);
+      };
+    })
+  );
+
+  if (migrated) {
+    console.log(`Migrated ${recitations.length} recitations and ${queue.length} queued items to IndexedDB`);
+  }
+
+  // Only drop the legacy keys once the data is committed to IndexedDB
+  ['mantraRecitations', 'syncQueue', 'syncDeadLetter', 'userMantras', 'coreMantras', 'googleSheetsMantras', ...legacyKeys]
+    .forEach(key => localStorage.removeItem(key));
+}
+
+/**
+ * Resolve once the database is open and legacy data has been migrated
+ */
+export function ready(): Promise<void> {
+  if (!readyPromise) {
+    readyPromise = migrateFromLocalStorage();
+    readyPromise.catch(() => {
+      readyPromise = null;
+    });
+  }
+  return readyPromise;
+}
+
+// ---------------------------------------------------------------------------
+// Repositories
+// ---------------------------------------------------------------------------
+
+export const recitationRepository = {
+  async getAll(): Promise<MantraRecitation[]> {
+    await ready();
+    // Keys are random client IDs, so key order says nothing about when a recitation was logged
+    const recitations = await getAll<MantraRecitation>('recitations');
+    return recitations.map(reviveRecitation).sort(compareRecitationTime);
+  },
+
+  async getById(id: string): Promise<MantraRecitation | null> {
+    await ready();
+    const recitation = await getOne<MantraRecitation>('recitations', id);
+    return recitation ? reviveRecitation(recitation) : null;
+  },
+
+  async getByMantra(mantraId: string): Promise<MantraRecitation[]> {
+    await ready();
+    const recitations = await getAllByIndex<MantraRecitation>('recitations', 'mantraId', mantraId);
+    return recitations.map(reviveRecitation).sort(compareRecitationTime);
+  },
+
+  async getBetween(from: Date, to: Date): Promise<MantraRecitation[]> {
+    await ready();
+    const recitations = await getAllByIndex<MantraRecitation>('recitations', 'timestamp', IDBKeyRange.bound(from, to));
+    return recitations.map(reviveRecitation);
+  },
+
+  async put(recitation: MantraRecitation): Promise<void> {
+    await ready();
+    await putOne('recitations', reviveRecitation(recitation));
+  },
+
+  async putMany(recitations: MantraRecitation[]): Promise<void> {
+    await ready();
+    await putMany('recitations', recitations.map(reviveRecitation));
+  },
+
+  async delete(id: string): Promise<void> {
+    await ready();
+    await deleteOne('recitations', id);
+  },
+
+  async deleteMany(ids: string[]): Promise<void> {
+    await ready();
+    await deleteMany('recitations', ids);
+  },
+
+  async clear(): Promise<void> {
+    await ready();
+    await clearStore('recitations');
+  },
+};
+
+function queueRepository<T extends QueuedRecitation>(store: 'syncQueue' | 'deadLetter' | 'sheetQueue') {
+  return {
+    async getAll(): Promise<T[]> {
+      await ready();
+      const items = await getAll<T>(store);
+      return items.map(reviveQueued).sort((a, b) => a.timestamp - b.timestamp);
+    },
+
+    async get(id: string): Promise<T | null> {
+      await ready();
+      const item = await getOne<T>(store, id);
+      return item ? reviveQueued(item) : null;
+    },
+
+    async put(item: T): Promise<void> {
+      await ready();
+      await putOne(store, item);
+    },
+
+    async putMany(items: T[]): Promise<void> {
+      await ready();
+      await putMany(store, items);
+    },
+
+    async delete(id: string): Promise<void> {
+      await ready();
+      await deleteOne(store, id);
+    },
+
+    async clear(): Promise<void> {
+      await ready();
+      await clearStore(store);
+    },
+  };
+}
+
+export const syncQueueRepository = queueRepository<QueuedRecitation>('syncQueue');
+export const deadLetterRepository = queueRepository<DeadLetterItem>('deadLetter');
+export const sheetQueueRepository = queueRepository<QueuedRecitation>('sheetQueue');
+
+export const userMantraRepository = {
+  async getAll(): Promise<Mantra[]> {
+    await ready();
+    const mantras = await getAll<Mantra>('userMantras');
+    return mantras.map(reviveMantra);
+  },
+
+  async put(mantra: Mantra): Promise<void> {
+    await ready();
+    await putOne('userMantras', mantra);
+  },
+
+  async delete(id: string): Promise<void> {
+    await ready();
+    await deleteOne('userMantras', id);
+  },
+};
+
+export const baniSessionRepository = {
+  async get(date: string): Promise<BaniSession[] | null> {
+    await ready();
+    const day = await getOne<BaniSessionDay>('baniSessions', date);
+    return day ? day.sessions : null;
+  },
+
+  async put(date: string, sessions: BaniSession[]): Promise<void> {
+    await ready();
+    await putOne<BaniSessionDay>('baniSessions', { date, sessions });
+  },
+};
+
+export const goalRepository = {
+  async getAll(): Promise<Goal[]> {
+    await ready();
+    const goals = await getAll<Goal>('goals');
+    return goals.map(reviveGoal).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  },
+
+  async put(goal: Goal): Promise<void> {
+    await ready();
+    await putOne('goals', goal);
+  },
+
+  async delete(id: string): Promise<void> {
+    await ready();
+    await deleteOne('goals', id);
+  },
+};
+
+export const vowRepository = {
+  async getAll(): Promise<Vow[]> {
+    await ready();
+    const vows = await getAll<Vow>('vows');
+    return vows.map(reviveVow).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  },
+
+  async put(vow: Vow): Promise<void> {
+    await ready();
+    await putOne('vows', vow);
+  },
+
+  async delete(id: string): Promise<void> {
+    await ready();
+    await deleteOne('vows', id);
+  },
+};
+
+export const mantraCacheRepository = {
+  async get(key: string): Promise<MantraCacheEntry | null> {
+    await ready();
+    const entry = await getOne<MantraCacheEntry>('mantraCache', key);
+    return entry ? { ...entry, data: entry.data.map(reviveMantra) } : null;
+  },
+
+  async put(key: string, data: Mantra[], extras?: Pick<MantraCacheEntry, 'sheets' | 'lastRefresh'>): Promise<void> {
+    await ready();
+    await putOne<MantraCacheEntry>('mantraCache', { key, data, timestamp: Date.now(), ...extras });
+  },
+
+  async delete(key: string): Promise<void> {
+    await ready();
+    await deleteOne('mantraCache', key);
+  },
+};
+
+export interface StoreSnapshot {
+  recitations: MantraRecitation[];
+  syncQueue: QueuedRecitation[];
+  deadLetter: DeadLetterItem[];
+  sheetQueue: QueuedRecitation[];
+  userMantras: Mantra[];
+  baniSessions: BaniSessionDay[];
+  mantraCache: MantraCacheEntry[];
+  goals: Goal[];
+  vows: Vow[];
+}
+
+const SNAPSHOT_STORES: Array<keyof StoreSnapshot> = [
+  'recitations',
+  'syncQueue',
+  'deadLetter',
+  'sheetQueue',
+  'userMantras',
+  'baniSessions',
+  'mantraCache',
+  'goals',
+  'vows',
+];
+
+export const snapshotRepository = {
+  /**
+   * Read every data store in one transaction so the snapshot is consistent
+   */
+  async read(): Promise<StoreSnapshot> {
+    await ready();
+    return transact(SNAPSHOT_STORES, 'readonly', tx => Promise.all(
+      SNAPSHOT_STORES.map(store => new Promise<unknown[]>((resolve, reject) => {
+        const request = tx.objectStore(store).getAll();
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }))
+    ).then(([recitations, syncQueue, deadLetter, sheetQueue, userMantras, baniSessions, mantraCache, goals, vows]) => ({
+      recitations: (recitations as MantraRecitation[]).map(reviveRecitation),
+      syncQueue: (syncQueue as QueuedRecitation[]).map(reviveQueued),
+      deadLetter: (deadLetter as DeadLetterItem[]).map(reviveQueued),
+      sheetQueue: (sheetQueue as QueuedRecitation[]).map(reviveQueued),
+      userMantras: (userMantras as Mantra[]).map(reviveMantra),
+      baniSessions: baniSessions as BaniSessionDay[],
+      mantraCache: mantraCache as MantraCacheEntry[],
+      goals: (goals as Goal[]).map(reviveGoal),
+      vows: (vows as Vow[]).map(reviveVow),
+    })));
+  },
+
+  /**
+   * Write a snapshot in one transaction. 'replace' clears each store first;
+   * 'merge' only adds records whose key isn't already present, so local data wins.
+   */
+  async write(snapshot: StoreSnapshot, mode: 'merge' | 'replace'): Promise<void> {
+    await ready();
+    const existing = mode === 'merge' ? await this.read() : null;
+
+    await transact(SNAPSHOT_STORES, 'readwrite', tx => {
+      const put = <T>(store: keyof StoreSnapshot, records: T[], keyOf: (record: T) => string, local?: T[]) => {
+        const objectStore = tx.objectStore(store);
+        if (!local) objectStore.clear();
+        const localKeys = new Set((local || []).map(keyOf));
+        records.filter(record => !localKeys.has(keyOf(record))).forEach(record => objectStore.put(record));
+      };
+
+      put('recitations', snapshot.recitations.map(reviveRecitation), r => r.id, existing?.recitations);
+      put('syncQueue', snapshot.syncQueue.map(reviveQueued), q => q.id, existing?.syncQueue);
+      put('deadLetter', snapshot.deadLetter.map(reviveQueued), d => d.id, existing?.deadLetter);
+      put('sheetQueue', snapshot.sheetQueue.map(reviveQueued), q => q.id, existing?.sheetQueue);
+      put('userMantras', snapshot.userMantras.map(reviveMantra), m => m.id, existing?.userMantras);
+      put('mantraCache', snapshot.mantraCache, c => c.key, existing?.mantraCache);
+      put('goals', snapshot.goals.map(reviveGoal), g => g.id, existing?.goals);
+      put('vows', snapshot.vows.map(reviveVow), v => v.id, existing?.vows);
+
+      // Bani sessions merge per day: banis completed on either side stay completed
+      const localDays = new Map((existing?.baniSessions || []).map(day => [day.date, day]));
+      const baniStore = tx.objectStore('baniSessions');
+      if (!existing) baniStore.clear();
+      snapshot.baniSessions.forEach(day => {
+        const local = localDays.get(day.date);
+        if (!local) {
+          baniStore.put(day);
+          return;
+        }
+        const sessions = new Map(local.sessions.map(s => [s.bani, s]));
+        day.sessions.forEach(session => {
+          const localSession = sessions.get(session.bani);
+          if (!localSession || (!localSession.completed && session.completed)) {
+            sessions.set(session.bani, session);
+          }
+        });
+        baniStore.put({ date: day.date, sessions: Array.from(sessions.values()) });
+      });
+    });
+  },
+};
@@ -0,0 +1,197 @@
+import {
+  combineSheetSnapshots,
+  contentMantraId,
+  diffMantras,
+  hashSheet,
+  isEmptyDiff,
+  mergeSheetImportReports,
+  parseMantraSheet,
+} from './sheetImport';
+
+describe('parseMantraSheet', () => {
+  it('maps documented headers and aliases regardless of case and spacing', () => {
+    const { mantras, report } = parseMantraSheet('Banis', [
+      ['Name', 'target_recitations', 'Target Recitation', 'GURU NUMBER', 'Translation'],
+      ['Japji Sahib', '1', '', '1', 'Morning prayer'],
+      ['Mool Mantar', '', '108', '', ''],
+    ]);
+
+    expect(report.unknownColumns).toEqual([]);
+    expect(mantras).toHaveLength(2);
+    expect(mantras[0]).toMatchObject({
+      id: 'gsheet-other-japji-sahib',
+      name: 'Japji Sahib',
+      targetRecitations: 1,
+      guruNumber: 1,
+      significance: 'Morning prayer',
+      translation: 'Morning prayer',
+      category: 'Other',
+    });
+    // The misspelled header still fills the field
+    expect(mantras[1].targetRecitations).toBe(108);
+  });
+
+  it('reports rows without a name instead of dropping them silently', () => {
+    const { mantras, report } = parseMantraSheet('Banis', [
+      ['Mantra', 'Category'],
+      ['', 'Banis'],
+      [],
+      ['Rehras Sahib', 'Banis'],
+    ]);
+
+    expect(mantras.map(m => m.name)).toEqual(['Rehras Sahib']);
+    expect(report.imported).toBe(1);
+    // The blank row is not worth reporting
+    expect(report.skippedRows).toEqual([{ sheet: 'Banis', row: 2, message: 'No mantra name' }]);
+  });
+
+  it('ignores values of the wrong type and keeps the rest of the row', () => {
+    const { mantras, report } = parseMantraSheet('Mantras', [
+      ['Mantra', 'Guru Number', 'Target Recitations', 'Optionality'],
+      ['Waheguru', '11', 'many', 'optional'],
+    ]);
+
+    expect(mantras[0]).toMatchObject({ name: 'Waheguru', guruNumber: undefined, targetRecitations: undefined, optionality: 'Optional' });
+    expect(report.typeErrors.map(e => [e.row, e.column])).toEqual([[2, 'Guru Number'], [2, 'Target Recitations']]);
+    expect(report.typeErrors[0].message).toBe('Guru Number must be between 1 and 10, got 11');
+  });
+
+  it('lists unknown columns and skips sheets without a required column', () => {
+    const { mantras, report } = parseMantraSheet('Notes', [
+      ['Mantra Title', 'Colour'],
+      ['Something', 'Blue'],
+    ]);
+
+    expect(mantras).toEqual([]);
+    expect(report.unknownColumns).toEqual([
+      { sheet: 'Notes', column: 'Mantra Title' },
+      { sheet: 'Notes', column: 'Colour' },
+    ]);
+    expect(report.sheetErrors).toEqual([{ sheet: 'Notes', message: 'Missing required column "Mantra"' }]);
+  });
+
+  it('gives rows without a category the tab default', () => {
+    const { mantras } = parseMantraSheet('Paurees', [
+      ['Mantra', 'Category'],
+      ['Pauree 1', ''],
+      ['Pauree 2', 'Japji Sahib'],
+    ], 'Japji Paurees');
+
+    expect(mantras.map(m => m.category)).toEqual(['Japji Paurees', 'Japji Sahib']);
+  });
+
+  it('skips rows that repeat an ID', () => {
+    const { mantras, report } = parseMantraSheet('Banis', [
+      ['ID', 'Mantra'],
+      ['japji', 'Japji Sahib'],
+      ['japji', 'Jaap Sahib'],
+    ]);
+
+    expect(mantras.map(m => m.name)).toEqual(['Japji Sahib']);
+    expect(report.skippedRows[0]).toMatchObject({ row: 3, message: 'Duplicate ID "japji"' });
+  });
+});
+
+describe('mantra IDs', () => {
+  it('derives IDs from the name and category so inserting rows keeps them', () => {
+    const before = parseMantraSheet('Banis', [['Mantra'], ['Japji Sahib'], ['Rehras Sahib']], 'Banis').mantras;
+    const after = parseMantraSheet('Banis', [['Mantra'], ['Jaap Sahib'], ['Japji Sahib'], ['Rehras Sahib']], 'Banis').mantras;
+
+    expect(before.map(m => m.id)).toEqual(['gsheet-banis-japji-sahib', 'gsheet-banis-rehras-sahib']);
+    expect(after.map(m => m.id)).toEqual(['gsheet-banis-jaap-sahib', ...before.map(m => m.id)]);
+  });
+
+  it('keeps Gurmukhi names readable', () => {
+    expect(contentMantraId('ਵਾਹਿਗੁਰੂ', 'Simran')).toBe('gsheet-simran-ਵਾਹਿਗੁਰੂ');
+  });
+
+  it('suffixes repeated IDs within and across tabs', () => {
+    const first = parseMantraSheet('A', [['Mantra', 'Category'], ['Waheguru', 'Simran'], ['Waheguru', 'Simran']]);
+    const second = parseMantraSheet('B', [['Mantra', 'Category'], ['Waheguru', 'Simran']]);
+
+    expect(first.report.skippedRows).toEqual([]);
+    expect(combineSheetSnapshots([
+      { hash: 'a', ...first },
+      { hash: 'b', ...second },
+    ]).mantras.map(m => m.id)).toEqual(['gsheet-simran-waheguru', 'gsheet-simran-waheguru-2', 'gsheet-simran-waheguru-3']);
+  });
+
+  it('reconciles old IDs to new ones by content', () => {
+    // Row-index IDs from before content-based IDs
+    const before = [
+      { id: 'gsheet-Banis-1', name: 'Japji Sahib', category: 'Banis', source: 'core' as const },
+      { id: 'gsheet-Banis-2', name: 'Rehras Sahib', category: 'Banis', source: 'core' as const },
+    ];
+    const after = parseMantraSheet('Banis', [
+      ['Mantra', 'Category'],
+      ['Japji Sahib', 'Banis'],
+      ['Rehras Sahib', 'Evening Banis'],
+    ]).mantras;
+
+    const diff = diffMantras(before, after);
+    expect(diff.idChanges).toEqual({
+      'gsheet-Banis-1': 'gsheet-banis-japji-sahib',
+      'gsheet-Banis-2': 'gsheet-evening-banis-rehras-sahib',
+    });
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed.map(change => change.fields)).toEqual([['ID'], ['ID', 'Category']]);
+  });
+
+  it('leaves ambiguous matches as added and removed', () => {
+    const before = [
+      { id: 'old-1', name: 'Waheguru', category: 'Simran', source: 'core' as const },
+      { id: 'old-2', name: 'Waheguru', category: 'Simran', source: 'core' as const },
+    ];
+    const after = [{ id: 'new-1', name: 'Waheguru', category: 'Simran', source: 'core' as const }];
+
+    const diff = diffMantras(before, after);
+    expect(diff.idChanges).toEqual({});
+    expect(diff.removed).toHaveLength(2);
+  });
+});
+
+describe('mergeSheetImportReports', () => {
+  it('adds up the reports of every sheet', () => {
+    const first = parseMantraSheet('A', [['Mantra'], ['One'], ['Two']]).report;
+    const second = parseMantraSheet('B', [['Mantra', 'Extra'], ['Three']]).report;
+
+    expect(mergeSheetImportReports([first, second])).toMatchObject({
+      sheets: ['A', 'B'],
+      imported: 3,
+      unknownColumns: [{ sheet: 'B', column: 'Extra' }],
+    });
+  });
+});
+
+describe('hashSheet', () => {
+  it('changes with the content and the default category only', () => {
+    const rows = [['Mantra'], ['Waheguru']];
+
+    expect(hashSheet(rows)).toBe(hashSheet([['Mantra'], ['Waheguru']]));
+    expect(hashSheet(rows)).not.toBe(hashSheet([['Mantra'], ['Waheguru Ji']]));
+    expect(hashSheet(rows)).not.toBe(hashSheet(rows, 'Simran'));
+  });
+});
+
+describe('diffMantras', () => {
+  it('finds added, removed and changed mantras by ID', () => {
+    const before = parseMantraSheet('Banis', [
+      ['ID', 'Mantra', 'Target Recitations'],
+      ['japji', 'Japji Sahib', '1'],
+      ['rehras', 'Rehras Sahib', '1'],
+    ]).mantras;
+    const after = parseMantraSheet('Banis', [
+      ['ID', 'Mantra', 'Target Recitations'],
+      ['japji', 'Japji Sahib', '5'],
+      ['sohila', 'Kirtan Sohila', '1'],
+    ]).mantras;
+
+    const diff = diffMantras(before, after);
+    expect(diff.added.map(m => m.id)).toEqual(['sohila']);
+    expect(diff.removed.map(m => m.id)).toEqual(['rehras']);
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].fields).toEqual(['Target Recitations']);
+    expect(isEmptyDiff(diffMantras(after, after))).toBe(true);
+  });
+});
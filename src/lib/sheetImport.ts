@@ -0,0 +1,380 @@
+/**
+ * Google Sheets mantra import
+ * Maps sheet rows onto mantras using a declared column schema: headers are
+ * matched through aliases, values are type-checked, and everything that could
+ * not be imported cleanly is collected in a report instead of being dropped silently.
+ */
+
+import { Mantra } from '../services/mantraService';
+
+type MantraColumnField =
+  | 'id'
+  | 'name'
+  | 'gurmukhi'
+  | 'category'
+  | 'optimalTime'
+  | 'optionality'
+  | 'targetRecitations'
+  | 'guruAuthorship'
+  | 'guruNumber'
+  | 'significance';
+
+interface ColumnSpec {
+  field: MantraColumnField;
+  header: string; // Header as documented for sheet authors
+  aliases: string[]; // Other headers accepted for the column, matched like the header
+  required?: boolean;
+  type: 'text' | 'integer' | 'choice';
+  min?: number;
+  max?: number;
+  choices?: string[];
+}
+
+export const MANTRA_COLUMNS: ColumnSpec[] = [
+  { field: 'id', header: 'ID', aliases: ['Mantra ID'], type: 'text' },
+  { field: 'name', header: 'Mantra', aliases: ['Name', 'Mantra Name', 'Title'], required: true, type: 'text' },
+  { field: 'gurmukhi', header: 'Gurmukhi', aliases: ['Gurmukhi Text', 'Punjabi'], type: 'text' },
+  { field: 'category', header: 'Category', aliases: ['Type', 'Group'], type: 'text' },
+  { field: 'optimalTime', header: 'Optimal Time', aliases: ['Best Time', 'Time'], type: 'text' },
+  {
+    field: 'optionality',
+    header: 'Optionality',
+    aliases: ['Requirement', 'Priority'],
+    type: 'choice',
+    choices: ['Required', 'Recommended', 'Optional'],
+  },
+  {
+    field: 'targetRecitations',
+    header: 'Target Recitations',
+    aliases: ['Target Recitation', 'Target', 'Target Count', 'Traditional Count'],
+    type: 'integer',
+    min: 1,
+  },
+  { field: 'guruAuthorship', header: 'Guru Authorship', aliases: ['Guru', 'Author', 'Authorship'], type: 'text' },
+  { field: 'guruNumber', header: 'Guru Number', aliases: ['Guru No', 'Guru #'], type: 'integer', min: 1, max: 10 },
+  { field: 'significance', header: 'Significance', aliases: ['Meaning', 'Translation', 'Description'], type: 'text' },
+];
+
+export interface SheetImportIssue {
+  sheet: string;
+  row: number; // Row number as shown in the sheet, the header being row 1
+  column?: string; // Header as written in the sheet
+  message: string;
+}
+
+export interface SheetImportReport {
+  sheets: string[];
+  imported: number;
+  skippedRows: SheetImportIssue[]; // Rows left out of the library
+  typeErrors: SheetImportIssue[]; // Values that were ignored; the rest of the row was imported
+  unknownColumns: Array<{ sheet: string; column: string }>;
+  sheetErrors: Array<{ sheet: string; message: string }>; // Sheets that could not be read at all
+}
+
+export function emptySheetImportReport(): SheetImportReport {
+  return { sheets: [], imported: 0, skippedRows: [], typeErrors: [], unknownColumns: [], sheetErrors: [] };
+}
+
+/**
+ * Combine the reports of several sheets into one
+ */
+export function mergeSheetImportReports(reports: SheetImportReport[]): SheetImportReport {
+  return reports.reduce((merged, report) => ({
+    sheets: [...merged.sheets, ...report.sheets],
+    imported: merged.imported + report.imported,
+    skippedRows: [...merged.skippedRows, ...report.skippedRows],
+    typeErrors: [...merged.typeErrors, ...report.typeErrors],
+    unknownColumns: [...merged.unknownColumns, ...report.unknownColumns],
+    sheetErrors: [...merged.sheetErrors, ...report.sheetErrors],
+  }), emptySheetImportReport());
+}
+
+/**
+ * Whether a sync finished without anything to report
+ */
+export function isCleanImport(report: SheetImportReport): boolean {
+  return report.skippedRows.length === 0
+    && report.typeErrors.length === 0
+    && report.unknownColumns.length === 0
+    && report.sheetErrors.length === 0;
+}
+
+// Lowercase words joined by hyphens, keeping letters and vowel signs in any script so Gurmukhi names stay readable
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * ID for a sheet row without an ID column, derived from its content so inserting or
+ * reordering rows leaves it unchanged
+ */
+export function contentMantraId(name: string, category: string): string {
+  return `gsheet-${slugify(category) || 'other'}-${slugify(name) || hashSheet([[name]])}`;
+}
+
+// Case, spacing and punctuation don't matter: "Target Recitations", "target_recitations" and "TargetRecitations" match
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9#]/g, '');
+}
+
+function findColumn(header: string): ColumnSpec | undefined {
+  const normalized = normalizeHeader(header);
+  return MANTRA_COLUMNS.find(spec =>
+    [spec.header, ...spec.aliases].some(name => normalizeHeader(name) === normalized)
+  );
+}
+
+// Parse a value against its column type, returning an error for values that don't fit
+function parseValue(spec: ColumnSpec, raw: string): string | number | { error: string } {
+  if (spec.type === 'integer') {
+    const cleaned = raw.replace(/,/g, '');
+    if (!/^-?\d+$/.test(cleaned)) {
+      return { error: `${spec.header} must be a whole number, got "${raw}"` };
+    }
+    const value = parseInt(cleaned, 10);
+    if ((spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+      const range = spec.max !== undefined ? `between ${spec.min} and ${spec.max}` : `at least ${spec.min}`;
+      return { error: `${spec.header} must be ${range}, got ${value}` };
+    }
+    return value;
+  }
+
+  if (spec.type === 'choice' && spec.choices) {
+    const choice = spec.choices.find(c => c.toLowerCase() === raw.toLowerCase());
+    return choice || { error: `${spec.header} must be one of ${spec.choices.join(', ')}, got "${raw}"` };
+  }
+
+  return raw;
+}
+
+/**
+ * Turn the rows of one sheet (header row first) into mantras and a report of what was left out.
+ * Rows without a category get the tab's default category.
+ */
+export function parseMantraSheet(
+  sheet: string,
+  rows: string[][],
+  defaultCategory = ''
+): { mantras: Mantra[]; report: SheetImportReport } {
+  const report: SheetImportReport = { ...emptySheetImportReport(), sheets: [sheet] };
+  const mantras: Mantra[] = [];
+  if (rows.length === 0) {
+    return { mantras, report };
+  }
+
+  // Several headers may feed the same field (e.g. "Significance" and "Translation"); the first non-empty value wins
+  const headers = rows[0].map(h => String(h ?? '').trim());
+  const columns = headers.map(header => (header ? findColumn(header) : undefined));
+  headers.forEach((header, index) => {
+    if (header && !columns[index]) report.unknownColumns.push({ sheet, column: header });
+  });
+
+  const missing = MANTRA_COLUMNS.filter(spec => spec.required && !columns.includes(spec));
+  if (missing.length > 0) {
+    report.sheetErrors.push({
+      sheet,
+      message: `Missing required column${missing.length > 1 ? 's' : ''} ${missing.map(spec => `"${spec.header}"`).join(', ')}`,
+    });
+    return { mantras, report };
+  }
+
+  const seenIds = new Set<string>(); // Explicit IDs only; repeated content IDs get a suffix in withUniqueIds
+
+  for (let i = 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    const rowNumber = i + 1;
+    if (row.every(cell => !String(cell ?? '').trim())) continue; // Blank spacer rows aren't worth reporting
+
+    const values: Partial<Record<MantraColumnField, string | number>> = {};
+    const rowErrors: SheetImportIssue[] = [];
+
+    columns.forEach((spec, index) => {
+      const raw = String(row[index] ?? '').trim();
+      if (!spec || !raw || values[spec.field] !== undefined) return;
+
+      const parsed = parseValue(spec, raw);
+      if (typeof parsed === 'object') {
+        rowErrors.push({ sheet, row: rowNumber, column: headers[index], message: parsed.error });
+      } else {
+        values[spec.field] = parsed;
+      }
+    });
+
+    const name = values.name as string | undefined;
+    if (!name) {
+      report.skippedRows.push({ sheet, row: rowNumber, message: 'No mantra name' });
+      continue;
+    }
+
+    const explicitId = values.id as string | undefined;
+    if (explicitId && seenIds.has(explicitId)) {
+      report.skippedRows.push({ sheet, row: rowNumber, column: 'ID', message: `Duplicate ID "${explicitId}"` });
+      continue;
+    }
+    if (explicitId) seenIds.add(explicitId);
+    report.typeErrors.push(...rowErrors);
+
+    const category = (values.category as string | undefined) || defaultCategory || 'Other';
+    const id = explicitId || contentMantraId(name, category);
+    const targetRecitations = values.targetRecitations as number | undefined;
+    const significance = (values.significance as string | undefined) || '';
+    mantras.push({
+      id,
+      name,
+      gurmukhi: (values.gurmukhi as string | undefined) || '',
+      category,
+      source: 'core',
+      optimalTime: (values.optimalTime as string | undefined) || '',
+      optionality: (values.optionality as string | undefined) || '',
+      targetRecitations,
+      guruAuthorship: (values.guruAuthorship as string | undefined) || '',
+      guruNumber: values.guruNumber as number | undefined,
+      significance,
+      // Legacy fields for backwards compatibility
+      traditionalCount: targetRecitations,
+      translation: significance,
+    });
+  }
+
+  report.imported = mantras.length;
+  return { mantras, report };
+}
+
+/**
+ * Make IDs unique across all tabs: later mantras with a taken ID get a numeric suffix, in sheet order
+ */
+export function withUniqueIds(mantras: Mantra[]): Mantra[] {
+  const taken = new Set(mantras.map(mantra => mantra.id));
+  const seen = new Set<string>();
+
+  return mantras.map(mantra => {
+    if (!seen.has(mantra.id)) {
+      seen.add(mantra.id);
+      return mantra;
+    }
+    let suffix = 2;
+    while (taken.has(`${mantra.id}-${suffix}`)) suffix++;
+    const id = `${mantra.id}-${suffix}`;
+    taken.add(id);
+    seen.add(id);
+    return { ...mantra, id };
+  });
+}
+
+/**
+ * The library and combined report for a set of tabs, in tab order
+ */
+export function combineSheetSnapshots(snapshots: SheetSnapshot[]): { mantras: Mantra[]; report: SheetImportReport } {
+  return {
+    mantras: withUniqueIds(snapshots.flatMap(snapshot => snapshot.mantras)),
+    report: mergeSheetImportReports(snapshots.map(snapshot => snapshot.report)),
+  };
+}
+
+// A tab as last read: its content hash, and what it produced so unchanged tabs needn't be parsed again
+export interface SheetSnapshot {
+  hash: string;
+  mantras: Mantra[];
+  report: SheetImportReport;
+}
+
+export interface MantraChange {
+  before: Mantra;
+  after: Mantra;
+  fields: string[]; // Headers of the columns whose values changed
+}
+
+export interface MantraDiff {
+  added: Mantra[];
+  removed: Mantra[];
+  changed: MantraChange[];
+  idChanges: Record<string, string>; // Old ID to new ID for mantras that were matched despite a new ID
+}
+
+// What one refresh found, kept so the sync panel can show it after a background refresh
+export interface SheetsRefresh {
+  at: number;
+  diff: MantraDiff;
+  report: SheetImportReport;
+  unchangedSheets: string[]; // Tabs skipped because their content hash had not changed
+}
+
+/**
+ * Content hash of a tab's values and the settings used to parse them (32-bit FNV-1a, hex)
+ */
+export function hashSheet(rows: string[][], defaultCategory = ''): string {
+  const text = JSON.stringify([defaultCategory, rows]);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function changedFields(before: Mantra, after: Mantra): string[] {
+  return MANTRA_COLUMNS
+    .filter(spec => (before[spec.field] ?? '') !== (after[spec.field] ?? ''))
+    .map(spec => spec.header);
+}
+
+// Ways to recognise a mantra whose ID changed, tried in order: same name and category
+// (e.g. IDs from before content-based IDs), same name (category edited), same Gurmukhi (name edited)
+const IDENTITY_KEYS: Array<(mantra: Mantra) => string> = [
+  mantra => `${mantra.name.trim().toLowerCase()}|${(mantra.category || '').trim().toLowerCase()}`,
+  mantra => mantra.name.trim().toLowerCase(),
+  mantra => (mantra.gurmukhi || '').trim(),
+];
+
+function groupBy(mantras: Mantra[], key: (mantra: Mantra) => string): Map<string, Mantra[]> {
+  const groups = new Map<string, Mantra[]>();
+  mantras.forEach(mantra => {
+    const value = key(mantra);
+    if (value) groups.set(value, [...(groups.get(value) || []), mantra]);
+  });
+  return groups;
+}
+
+/**
+ * Mantras added, removed and changed between two imports. Mantras are matched by ID, then
+ * leftovers are matched by content so a changed ID is reported (and reconciled) rather than
+ * showing up as one mantra removed and another added. Only unambiguous matches are made.
+ */
+export function diffMantras(before: Mantra[], after: Mantra[]): MantraDiff {
+  const previous = new Map(before.map(mantra => [mantra.id, mantra]));
+  const current = new Map(after.map(mantra => [mantra.id, mantra]));
+  const diff: MantraDiff = { added: [], removed: [], changed: [], idChanges: {} };
+
+  current.forEach((mantra, id) => {
+    const old = previous.get(id);
+    if (!old) {
+      diff.added.push(mantra);
+      return;
+    }
+    const fields = changedFields(old, mantra);
+    if (fields.length > 0) diff.changed.push({ before: old, after: mantra, fields });
+  });
+  previous.forEach((mantra, id) => {
+    if (!current.has(id)) diff.removed.push(mantra);
+  });
+
+  IDENTITY_KEYS.forEach(key => {
+    const added = groupBy(diff.added, key);
+    groupBy(diff.removed, key).forEach((olds, value) => {
+      const news = added.get(value);
+      if (olds.length !== 1 || news?.length !== 1) return;
+
+      const [old, mantra] = [olds[0], news[0]];
+      diff.changed.push({ before: old, after: mantra, fields: changedFields(old, mantra) });
+      diff.idChanges[old.id] = mantra.id;
+      diff.added = diff.added.filter(m => m !== mantra);
+      diff.removed = diff.removed.filter(m => m !== old);
+    });
+  });
+
+  return diff;
+}
+
+export function isEmptyDiff(diff: MantraDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
@@ -0,0 +1,128 @@
+import {
+  computeStreaks,
+  computeStreakStats,
+  getPracticeDates,
+  getRunningStreaks,
+  getWeeklyPractice,
+} from './streaks';
+import { MantraRecitation } from '../types';
+
+let nextId = 0;
+function recitation(mantraName: string, timestamp: Date): MantraRecitation {
+  nextId += 1;
+  return { id: `r${nextId}`, mantraName, count: 108, timestamp };
+}
+
+describe('getPracticeDates', () => {
+  it('returns distinct sorted dates and skips recitations without a timestamp', () => {
+    const dates = getPracticeDates([
+      recitation('Japji Sahib', new Date(2024, 0, 3, 6)),
+      recitation('Japji Sahib', new Date(2024, 0, 1, 6)),
+      recitation('Waheguru', new Date(2024, 0, 1, 21)),
+      { id: 'no-time', mantraName: 'Waheguru', count: 1 },
+    ]);
+    expect(dates).toEqual(['2024-01-01', '2024-01-03']);
+  });
+});
+
+describe('computeStreaks', () => {
+  it('is empty with no practice', () => {
+    expect(computeStreaks([], { today: '2024-01-10' })).toEqual({ current: 0, longest: 0, lastPracticed: null });
+  });
+
+  it('counts consecutive days up to today', () => {
+    const stats = computeStreaks(['2024-01-08', '2024-01-09', '2024-01-10'], { today: '2024-01-10' });
+    expect(stats).toEqual({ current: 3, longest: 3, lastPracticed: '2024-01-10' });
+  });
+
+  it('keeps the streak current when today has not been practiced yet', () => {
+    expect(computeStreaks(['2024-01-08', '2024-01-09'], { today: '2024-01-10' }).current).toBe(2);
+  });
+
+  it('breaks the current streak after a full missed day', () => {
+    const stats = computeStreaks(['2024-01-07', '2024-01-08'], { today: '2024-01-10' });
+    expect(stats.current).toBe(0);
+    expect(stats.longest).toBe(2);
+  });
+
+  it('tracks the longest streak separately from the current one', () => {
+    const stats = computeStreaks(
+      ['2024-01-01', '2024-01-02', '2024-01-03', '2024-01-04', '2024-01-08', '2024-01-09'],
+      { today: '2024-01-09' }
+    );
+    expect(stats.current).toBe(2);
+    expect(stats.longest).toBe(4);
+  });
+
+  it('tolerates missed days within the grace allowance without counting them', () => {
+    const dates = ['2024-01-01', '2024-01-02', '2024-01-04', '2024-01-05'];
+    expect(computeStreaks(dates, { today: '2024-01-05', graceDays: 0 }).longest).toBe(2);
+    expect(computeStreaks(dates, { today: '2024-01-05', graceDays: 1 }).longest).toBe(4);
+    expect(computeStreaks(['2024-01-08'], { today: '2024-01-10', graceDays: 1 }).current).toBe(1);
+    expect(computeStreaks(['2024-01-07'], { today: '2024-01-10', graceDays: 1 }).current).toBe(0);
+  });
+
+  it('counts across month and year boundaries', () => {
+    const stats = computeStreaks(['2023-12-30', '2023-12-31', '2024-01-01'], { today: '2024-01-01' });
+    expect(stats.current).toBe(3);
+  });
+
+  it('counts across a DST change as consecutive days', () => {
+    // US and EU clocks spring forward on these dates
+    expect(computeStreaks(['2024-03-09', '2024-03-10', '2024-03-11'], { today: '2024-03-11' }).current).toBe(3);
+    expect(computeStreaks(['2024-03-30', '2024-03-31', '2024-04-01'], { today: '2024-04-01' }).current).toBe(3);
+  });
+
+  it('ignores dates after today', () => {
+    expect(computeStreaks(['2024-01-09', '2024-01-11'], { today: '2024-01-10' })).toEqual({
+      current: 1,
+      longest: 1,
+      lastPracticed: '2024-01-09',
+    });
+  });
+});
+
+describe('getRunningStreaks', () => {
+  it('reports the streak length as of each practice day', () => {
+    expect(getRunningStreaks(['2024-01-01', '2024-01-02', '2024-01-04'])).toEqual({
+      '2024-01-01': 1,
+      '2024-01-02': 2,
+      '2024-01-04': 1,
+    });
+  });
+});
+
+describe('computeStreakStats', () => {
+  it('computes overall and per-mantra streaks', () => {
+    const recitations = [
+      recitation('Japji Sahib', new Date(2024, 0, 8, 6)),
+      recitation('Japji Sahib', new Date(2024, 0, 9, 6)),
+      recitation('Japji Sahib', new Date(2024, 0, 10, 6)),
+      recitation('Waheguru', new Date(2024, 0, 7, 20)),
+      recitation('Waheguru', new Date(2024, 0, 10, 20)),
+    ];
+
+    const { overall, byMantra } = computeStreakStats(recitations, { today: '2024-01-10' });
+    expect(overall.current).toBe(4);
+    expect(byMantra['Japji Sahib'].current).toBe(3);
+    expect(byMantra['Waheguru']).toEqual({ current: 1, longest: 1, lastPracticed: '2024-01-10' });
+  });
+});
+
+describe('getWeeklyPractice', () => {
+  it('counts distinct practice days per week, oldest first', () => {
+    const recitations = [
+      recitation('Japji Sahib', new Date(2024, 0, 1, 6)),
+      recitation('Waheguru', new Date(2024, 0, 1, 20)),
+      recitation('Japji Sahib', new Date(2024, 0, 2, 6)),
+      recitation('Japji Sahib', new Date(2024, 0, 9, 6)),
+    ];
+
+    // 2024-01-10 is a Wednesday; weeks start on Sunday in the default locale
+    expect(getWeeklyPractice(recitations, 3, '2024-01-10')).toEqual([
+      { weekStart: '2023-12-24', daysPracticed: 0 },
+      { weekStart: '2023-12-31', daysPracticed: 2 },
+      { weekStart: '2024-01-07', daysPracticed: 1 },
+    ]);
+  });
+});
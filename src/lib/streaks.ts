@@ -0,0 +1,134 @@
+/**
+ * Streak and consistency calculations
+ * Practice days are day keys (YYYY-MM-DD) from the shared date utility, so they
+ * follow the user's timezone and day-start hour. Day differences are computed
+ * on the keys themselves rather than on timestamps, so DST changes never turn
+ * one day into zero or two.
+ */
+
+import { MantraRecitation, DailyStats, StreakStats, WeeklyStats } from '../types';
+import { addDays, daysBetween, startOfWeek, toDayKey, todayKey } from './dates';
+
+// localStorage key for the user's grace-day setting
+export const GRACE_DAYS_KEY = 'streakGraceDays';
+
+export interface StreakOptions {
+  today?: string; // Day key, defaults to the current day
+  graceDays?: number; // Consecutive missed days tolerated without breaking a streak
+}
+
+/**
+ * Distinct practice days with at least one recitation, in ascending order
+ */
+export function getPracticeDates(recitations: MantraRecitation[]): string[] {
+  const dates = new Set<string>();
+  recitations.forEach(r => {
+    if (r.timestamp) dates.add(toDayKey(r.timestamp));
+  });
+  return Array.from(dates).sort();
+}
+
+/**
+ * Streak length (in practice days) as of each practice date
+ */
+export function getRunningStreaks(dates: string[], graceDays = 0): Record<string, number> {
+  const running: Record<string, number> = {};
+  let streak = 0;
+  let previous: string | null = null;
+
+  Array.from(new Set(dates)).sort().forEach(date => {
+    const missed = previous === null ? Infinity : daysBetween(previous, date) - 1;
+    streak = missed <= graceDays ? streak + 1 : 1;
+    running[date] = streak;
+    previous = date;
+  });
+
+  return running;
+}
+
+/**
+ * Current and longest streaks for a set of practice dates.
+ * Today doesn't count as missed until it's over, so a streak practiced
+ * through yesterday is still current.
+ */
+export function computeStreaks(dates: string[], options: StreakOptions = {}): StreakStats {
+  const graceDays = options.graceDays || 0;
+  const today = options.today || todayKey();
+  const running = getRunningStreaks(dates.filter(date => date <= today), graceDays);
+  const practiced = Object.keys(running).sort();
+
+  if (practiced.length === 0) {
+    return { current: 0, longest: 0, lastPracticed: null };
+  }
+
+  const lastPracticed = practiced[practiced.length - 1];
+  const missedSinceLast = daysBetween(lastPracticed, today) - 1;
+
+  return {
+    current: missedSinceLast <= graceDays ? running[lastPracticed] : 0,
+    longest: Math.max(...Object.values(running)),
+    lastPracticed,
+  };
+}
+
+/**
+ * Streaks across all practice and for each mantra (keyed by mantra name)
+ */
+export function computeStreakStats(
+  recitations: MantraRecitation[],
+  options: StreakOptions = {}
+): { overall: StreakStats; byMantra: Record<string, StreakStats> } {
+  const byName = recitations.reduce((acc, r) => {
+    (acc[r.mantraName] = acc[r.mantraName] || []).push(r);
+    return acc;
+  }, {} as Record<string, MantraRecitation[]>);
+
+  const byMantra: Record<string, StreakStats> = {};
+  Object.entries(byName).forEach(([name, mantraRecitations]) => {
+    byMantra[name] = computeStreaks(getPracticeDates(mantraRecitations), options);
+  });
+
+  return { overall: computeStreaks(getPracticeDates(recitations), options), byMantra };
+}
+
+/**
+ * Days practiced in each of the last `weeks` weeks (oldest first), using the
+ * locale's first day of the week
+ */
+export function getWeeklyPractice(recitations: MantraRecitation[], weeks: number, today?: string): WeeklyStats[] {
+  const dates = getPracticeDates(recitations);
+  const thisWeek = startOfWeek(today || todayKey());
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const weekStart = addDays(thisWeek, -7 * (weeks - 1 - index));
+    const weekEnd = addDays(weekStart, 6);
+    return {
+      weekStart,
+      daysPracticed: dates.filter(date => date >= weekStart && date <= weekEnd).length,
+    };
+  });
+}
+
+/**
+ * Per-day totals keyed by practice day, in ascending date order
+ */
+export function getDailyStats(recitations: MantraRecitation[], graceDays = 0): DailyStats[] {
+  const runningStreaks = getRunningStreaks(getPracticeDates(recitations), graceDays);
+  const dailyData = recitations.reduce((acc, r) => {
+    // Skip recitations without timestamp
+    if (!r.timestamp) {
+      return acc;
+    }
+
+    const date = toDayKey(r.timestamp);
+    if (!acc[date]) {
+      acc[date] = { date, count: 0, duration: 0, recitations: 0, streak: runningStreaks[date] || 0 };
+    }
+    acc[date].count += r.count;
+    acc[date].duration += (r.duration || 0);
+    acc[date].recitations += 1;
+    return acc;
+  }, {} as Record<string, DailyStats>);
+
+  return Object.values(dailyData).sort((a, b) => a.date.localeCompare(b.date));
+}
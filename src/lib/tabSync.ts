@@ -0,0 +1,126 @@
+/**
+ * Cross-tab coordination helpers
+ * - withTabLock: run a task in at most one tab at a time (Web Locks API, localStorage fallback)
+ * - broadcastChange / onBroadcastChange: tell other tabs that shared data changed
+ */
+
+import { generateId } from './uuid';
+
+const CHANNEL_NAME = 'mantra-recitation';
+const LOCK_TTL_MS = 60 * 1000;
+
+// Identifies this tab as the owner of a localStorage fallback lock
+const tabId = generateId();
+
+type ChangeHandler = (topic: string) => void;
+
+const handlers: ChangeHandler[] = [];
+let channel: BroadcastChannel | null = null;
+let listening = false;
+
+function ensureListening() {
+  if (listening || typeof window === 'undefined') return;
+  listening = true;
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent) => {
+      if (event.data && typeof event.data.topic === 'string') {
+        handlers.forEach(handler => handler(event.data.topic));
+      }
+    };
+    return;
+  }
+
+  // Fallback: storage events fire in every other tab when a key changes
+  window.addEventListener('storage', (event: StorageEvent) => {
+    if (event.key && event.key.startsWith(`${CHANNEL_NAME}:broadcast:`) && event.newValue) {
+      const topic = event.key.slice(`${CHANNEL_NAME}:broadcast:`.length);
+      handlers.forEach(handler => handler(topic));
+    }
+  });
+}
+
+/**
+ * Notify other tabs that the data behind a topic changed
+ */
+export function broadcastChange(topic: string) {
+  ensureListening();
+
+  if (channel) {
+    channel.postMessage({ topic });
+  } else if (typeof localStorage !== 'undefined') {
+    localStorage.setItem(`${CHANNEL_NAME}:broadcast:${topic}`, `${tabId}:${Date.now()}`);
+  }
+}
+
+/**
+ * Listen for changes made in other tabs
+ */
+export function onBroadcastChange(handler: ChangeHandler): () => void {
+  ensureListening();
+  handlers.push(handler);
+
+  return () => {
+    const index = handlers.indexOf(handler);
+    if (index !== -1) handlers.splice(index, 1);
+  };
+}
+
+/**
+ * Run a task only if no other tab holds the named lock. Resolves false when skipped.
+ */
+export async function withTabLock(name: string, task: () => Promise<void>): Promise<boolean> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(name, { ifAvailable: true }, async (lock) => {
+      if (!lock) return false;
+      await task();
+      return true;
+    });
+  }
+
+  return withStorageLock(name, task);
+}
+
+// Best-effort lock for browsers without Web Locks; expires so a closed tab can't hold it forever
+async function withStorageLock(name: string, task: () => Promise<void>): Promise<boolean> {
+  const key = `${CHANNEL_NAME}:lock:${name}`;
+
+  const readLock = (): { owner: string; expiresAt: number } | null => {
+    try {
+      const stored = localStorage.getItem(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const current = readLock();
+  if (current && current.owner !== tabId && current.expiresAt > Date.now()) {
+    return false;
+  }
+
+  const claim = () => localStorage.setItem(key, JSON.stringify({ owner: tabId, expiresAt: Date.now() + LOCK_TTL_MS }));
+  claim();
+
+  // Catches a tab that claimed the lock just before this one. localStorage has no
+  // compare-and-set, so two tabs writing at the same instant can still both run the task.
+  if (readLock()?.owner !== tabId) {
+    return false;
+  }
+
+  // Keep the lock alive for tasks that outlast the TTL, as long as this tab still owns it
+  const renewal = setInterval(() => {
+    if (readLock()?.owner === tabId) claim();
+  }, LOCK_TTL_MS / 3);
+
+  try {
+    await task();
+    return true;
+  } finally {
+    clearInterval(renewal);
+    if (readLock()?.owner === tabId) {
+      localStorage.removeItem(key);
+    }
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Client-side ID generation
+ * Recitation IDs are created on the device so the same ID can be used locally,
+ * in the sync queue and as the idempotency key sent to the backend.
+ */
+
+export function generateId(): string {
+  const cryptoApi: Crypto | undefined = typeof window !== 'undefined' ? window.crypto : undefined;
+
+  if (cryptoApi && typeof cryptoApi.randomUUID === 'function') {
+    return cryptoApi.randomUUID();
+  }
+
+  // RFC 4122 version 4 fallback for older browsers
+  const bytes = new Uint8Array(16);
+  if (cryptoApi && typeof cryptoApi.getRandomValues === 'function') {
+    cryptoApi.getRandomValues(bytes);
+  } else {
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
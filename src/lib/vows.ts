@@ -0,0 +1,93 @@
+/**
+ * Vow (anushthan / sankalp) evaluation
+ * A vow is replayed day by day against logged recitations. A daily-quota vow
+ * breaks on any past day short of the quota; a total-quota vow breaks on a
+ * past day with no practice, or when its window ends short of the total.
+ * Each break restarts the vow or extends it by a day, per its miss rule.
+ */
+
+import { MantraRecitation, Vow, VowDay, VowEvaluation } from '../types';
+import { addDays, toDayKey, todayKey } from './dates';
+import { matchesMantra } from './goals';
+
+/**
+ * Amount expected on a single day: the daily quota, or an even share of the total
+ */
+export function getDailyTarget(vow: Vow): number {
+  return vow.quotaType === 'daily' ? vow.quota : Math.ceil(vow.quota / vow.durationDays);
+}
+
+export function evaluateVow(vow: Vow, recitations: MantraRecitation[], today = todayKey()): VowEvaluation {
+  const totals = new Map<string, number>();
+  recitations.forEach(r => {
+    if (!r.timestamp || !matchesMantra(vow, r)) return;
+    const date = toDayKey(r.timestamp);
+    totals.set(date, (totals.get(date) || 0) + r.count);
+  });
+
+  // An abandoned vow is frozen as of the day it was given up
+  const abandonedOn = vow.abandonedAt ? toDayKey(vow.abandonedAt) : null;
+  const lastEvaluated = abandonedOn && abandonedOn < today ? abandonedOn : today;
+  const dailyTarget = getDailyTarget(vow);
+
+  const days: VowDay[] = [];
+  let currentStart = vow.startDate;
+  let endDate = addDays(vow.startDate, vow.durationDays - 1);
+  let daysDone = 0;
+  let totalCount = 0;
+  let restarts = 0;
+  let extensions = 0;
+  let completed = false;
+
+  for (let date = vow.startDate; date <= endDate; date = addDays(date, 1)) {
+    if (date > lastEvaluated) {
+      days.push({ date, count: 0, status: 'pending' });
+      continue;
+    }
+
+    const count = totals.get(date) || 0;
+    const met = count >= dailyTarget;
+    const isPast = date < lastEvaluated;
+    totalCount += count;
+    if (met) daysDone += 1;
+
+    days.push({
+      date,
+      count,
+      status: met ? 'done' : count > 0 ? 'partial' : isPast ? 'missed' : 'pending',
+    });
+
+    completed = vow.quotaType === 'daily' ? daysDone >= vow.durationDays : totalCount >= vow.quota;
+    if (completed) {
+      endDate = date;
+      break;
+    }
+
+    const broken = isPast && (vow.quotaType === 'daily'
+      ? !met
+      : count === 0 || date === endDate);
+    if (!broken) continue;
+
+    if (vow.missRule === 'restart') {
+      currentStart = addDays(date, 1);
+      endDate = addDays(currentStart, vow.durationDays - 1);
+      daysDone = 0;
+      totalCount = 0;
+      restarts += 1;
+    } else {
+      endDate = addDays(endDate, 1);
+      extensions += 1;
+    }
+  }
+
+  return {
+    state: completed ? 'completed' : abandonedOn ? 'abandoned' : 'active',
+    days,
+    currentStart,
+    endDate,
+    daysDone,
+    totalCount,
+    restarts,
+    extensions,
+  };
+}
@@ -0,0 +1,119 @@
+import { Goal } from '../types';
+import { generateId } from '../lib/uuid';
+import { broadcastChange, onBroadcastChange } from '../lib/tabSync';
+import { goalRepository } from '../lib/repository';
+import { todayKey } from '../lib/dates';
+import { mantraService } from './mantraService';
+
+class GoalService {
+  private changeTopic = 'goals';
+  private listeners: Array<(goals: Goal[]) => void> = [];
+
+  constructor() {
+    // Pick up goals created or changed in another tab
+    onBroadcastChange((topic) => {
+      if (topic === this.changeTopic) {
+        this.getGoals().then(goals => this.notifyListeners(goals));
+      }
+    });
+
+    // Keep goals attached to mantras whose ID changed in the sheet
+    mantraService.onMantraIdsChanged(idChanges => this.reassignMantraIds(idChanges));
+  }
+
+  /**
+   * Get all goals, including archived ones, oldest first
+   */
+  async getGoals(): Promise<Goal[]> {
+    try {
+      return await goalRepository.getAll();
+    } catch (error) {
+      console.error('Error reading goals:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a goal that counts recitations from today onward unless a start date is given
+   */
+  async addGoal(goal: Omit<Goal, 'id' | 'createdAt' | 'startDate'> & { startDate?: string }): Promise<Goal> {
+    const newGoal: Goal = {
+      ...goal,
+      id: generateId(),
+      startDate: goal.startDate || todayKey(),
+      createdAt: new Date(),
+    };
+
+    await goalRepository.put(newGoal);
+    await this.changed();
+    return newGoal;
+  }
+
+  /**
+   * Apply partial updates to a goal
+   */
+  async updateGoal(id: string, updates: Partial<Omit<Goal, 'id'>>): Promise<Goal | null> {
+    const existing = (await this.getGoals()).find(g => g.id === id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = { ...existing, ...updates };
+    await goalRepository.put(updated);
+    await this.changed();
+    return updated;
+  }
+
+  /**
+   * Stop tracking a goal while keeping it in the history
+   */
+  async archiveGoal(id: string) {
+    await this.updateGoal(id, { archivedAt: new Date() });
+  }
+
+  async deleteGoal(id: string) {
+    await goalRepository.delete(id);
+    await this.changed();
+  }
+
+  /**
+   * Point goals at the new IDs of mantras whose ID changed
+   */
+  async reassignMantraIds(idChanges: Record<string, string>) {
+    const moved = (await this.getGoals()).filter((goal) => goal.mantraId && idChanges[goal.mantraId]);
+    if (moved.length === 0) return;
+
+    for (const goal of moved) {
+      await goalRepository.put({ ...goal, mantraId: idChanges[goal.mantraId!] });
+    }
+    await this.changed();
+  }
+
+  /**
+   * Subscribe to goal changes
+   */
+  subscribe(listener: (goals: Goal[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Call with current goals once they are loaded
+    this.getGoals().then(goals => {
+      if (this.listeners.includes(listener)) listener(goals);
+    });
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async changed() {
+    this.notifyListeners(await this.getGoals());
+    broadcastChange(this.changeTopic);
+  }
+
+  private notifyListeners(goals: Goal[]) {
+    this.listeners.forEach(listener => listener(goals));
+  }
+}
+
+export const goalService = new GoalService();
@@ -1,4 +1,14 @@
+import dayjs from 'dayjs';
 import { Mantra } from './mantraService';
+import { MantraRecitation, SheetTabSetting, SheetWriteBackSettings, SyncOperation } from '../types';
+import { toDayKey } from '../lib/dates';
+import {
+  SheetImportReport,
+  SheetSnapshot,
+  combineSheetSnapshots,
+  hashSheet,
+  parseMantraSheet,
+} from '../lib/sheetImport';
 
 // Google API Configuration
 const CLIENT_ID = process.env.REACT_APP_GOOGLE_CLIENT_ID;
@@ -8,11 +18,49 @@ const SHEET_ID = process.env.REACT_APP_GOOGLE_SHEET_ID;
 // Discovery doc URL for APIs used by the quickstart
 const DISCOVERY_DOC = 'https://sheets.googleapis.com/$discovery/rest?version=v4';
 
-// Authorization scopes required by the API
-const SCOPES = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+// Authorization scopes required by the API; writing recitations back needs full sheet access
+const READ_SCOPE = 'https://www.googleapis.com/auth/spreadsheets.readonly';
+const WRITE_SCOPE = 'https://www.googleapis.com/auth/spreadsheets';
+
+const WRITE_BACK_KEY = 'googleSheetsWriteBack';
+const TAB_SETTINGS_KEY = 'googleSheetsTabs';
+// Tab names as last listed, so background refreshes can skip spreadsheets.get
+const KNOWN_TABS_KEY = 'googleSheetsKnownTabs';
+
+// Tabs are synced unless the user unticks them
+export const DEFAULT_TAB_SETTING: SheetTabSetting = { sync: true, defaultCategory: '' };
+
+// Tab that recitations are written to, one row per recitation keyed by its ID
+export const RECITATIONS_SHEET = 'Recitations';
+const RECITATION_COLUMNS = [
+  'Recitation ID',
+  'Practice Day',
+  'Recited At',
+  'Name',
+  'Mantra',
+  'Mantra ID',
+  'Count',
+  'Duration (min)',
+  'Notes',
+];
+
+// Times to look a row up again when the sheet shifts under a delete
+const MAX_ROW_LOOKUPS = 3;
+
+/**
+ * Raised when Google rejects the access token, so callers can wait for the user to sign in again
+ */
+export class GoogleSheetsAuthError extends Error {
+  constructor(message = 'Google sign-in has expired. Sign in again to keep writing to the sheet.') {
+    super(message);
+    this.name = 'GoogleSheetsAuthError';
+  }
+}
 
-interface GoogleSheetsRow {
-  [key: string]: any;
+// Keep user-entered text from being read as a formula
+function asText(value: string | undefined): string {
+  if (!value) return '';
+  return /^[=+\-@]/.test(value) ? `'${value}` : value;
 }
 
 class GoogleSheetsService {
@@ -20,6 +68,8 @@ class GoogleSheetsService {
   private gapiInited = false;
   private gisInited = false;
   private accessToken: string | null = null;
+  private grantedScopes: string[] = [];
+  private recitationsSheetId: number | null = null;
 
   /**
    * Initialize the Google API client
@@ -66,7 +116,7 @@ class GoogleSheetsService {
       script.onload = () => {
         this.tokenClient = (window as any).google.accounts.oauth2.initTokenClient({
           client_id: CLIENT_ID,
-          scope: SCOPES,
+          scope: this.getScope(),
           callback: '', // defined at request time
         });
         this.gisInited = true;
@@ -98,11 +148,93 @@ class GoogleSheetsService {
     return this.accessToken !== null;
   }
 
+  /**
+   * Whether the current sign-in allows writing to the sheet
+   */
+  canWrite(): boolean {
+    return this.isSignedIn() && this.grantedScopes.includes(WRITE_SCOPE);
+  }
+
+  /**
+   * Write-back preferences, stored per device
+   */
+  getWriteBackSettings(): SheetWriteBackSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(WRITE_BACK_KEY) || 'null');
+      if (stored) {
+        return { enabled: stored.enabled === true, name: typeof stored.name === 'string' ? stored.name : '' };
+      }
+    } catch (error) {
+      console.error('Error reading write-back settings:', error);
+    }
+    return { enabled: false, name: '' };
+  }
+
+  saveWriteBackSettings(settings: SheetWriteBackSettings) {
+    localStorage.setItem(WRITE_BACK_KEY, JSON.stringify(settings));
+  }
+
+  isWriteBackEnabled(): boolean {
+    return this.isConfigured() && this.getWriteBackSettings().enabled;
+  }
+
+  /**
+   * Per-tab import choices, keyed by tab name
+   */
+  getTabSettings(): Record<string, SheetTabSetting> {
+    try {
+      return JSON.parse(localStorage.getItem(TAB_SETTINGS_KEY) || '{}');
+    } catch (error) {
+      console.error('Error reading sheet tab settings:', error);
+      return {};
+    }
+  }
+
+  saveTabSettings(settings: Record<string, SheetTabSetting>) {
+    localStorage.setItem(TAB_SETTINGS_KEY, JSON.stringify(settings));
+  }
+
+  getTabSetting(sheetName: string): SheetTabSetting {
+    return this.getTabSettings()[sheetName] || DEFAULT_TAB_SETTING;
+  }
+
+  private getKnownTabs(): string[] | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem(KNOWN_TABS_KEY) || 'null');
+      return Array.isArray(stored) ? stored : null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Tabs to import: the ones selected for syncing, never the recitation log
+  private selectTabs(sheetNames: string[]): string[] {
+    return sheetNames.filter(name => name !== RECITATIONS_SHEET && this.getTabSetting(name).sync);
+  }
+
+  private async batchGet(sheetNames: string[]): Promise<any[]> {
+    const response = await (window as any).gapi.client.sheets.spreadsheets.values.batchGet({
+      spreadsheetId: SHEET_ID,
+      // Quoted so tab names with spaces or apostrophes are valid A1 ranges
+      ranges: sheetNames.map(name => `'${name.replace(/'/g, "''")}'!A:Z`),
+    });
+    return response.result.valueRanges || [];
+  }
+
+  private isConfigured(): boolean {
+    return !!(CLIENT_ID && API_KEY && SHEET_ID);
+  }
+
+  private getScope(): string {
+    return this.getWriteBackSettings().enabled ? WRITE_SCOPE : READ_SCOPE;
+  }
+
   /**
    * Sign in the user
    */
   async signIn(): Promise<void> {
     await this.initialize();
+    const scope = this.getScope();
 
     return new Promise((resolve, reject) => {
       try {
@@ -113,16 +245,17 @@ class GoogleSheetsService {
             return;
           }
           this.accessToken = response.access_token;
+          this.grantedScopes = (response.scope || '').split(' ');
           resolve();
         };
 
         // Request a token
-        if ((window as any).gapi.client.getToken() === null) {
-          // Prompt the user to select a Google Account and ask for consent
-          this.tokenClient.requestAccessToken({ prompt: 'consent' });
+        if ((window as any).gapi.client.getToken() === null || !this.grantedScopes.includes(scope)) {
+          // Prompt the user to select a Google Account and ask for consent (again when write access is added)
+          this.tokenClient.requestAccessToken({ prompt: 'consent', scope });
         } else {
           // Skip display of account chooser and consent dialog
-          this.tokenClient.requestAccessToken({ prompt: '' });
+          this.tokenClient.requestAccessToken({ prompt: '', scope });
         }
       } catch (error) {
         console.error('Error during sign in:', error);
@@ -140,108 +273,83 @@ class GoogleSheetsService {
       (window as any).google.accounts.oauth2.revoke(token.access_token);
       (window as any).gapi.client.setToken(null);
       this.accessToken = null;
+      this.grantedScopes = [];
     }
   }
 
   /**
-   * Fetch mantras from a single sheet
+   * Read the given sheets, or the tabs selected for syncing, in a single batchGet call.
+   * The selected tabs come from the tab list saved the last time tabs were listed; the
+   * spreadsheet is only asked for its tabs when there is no saved list, or when a saved
+   * tab has been renamed or removed and the read fails.
+   * Tabs whose content hash matches their previous snapshot are reused without being parsed again.
    */
-  private async getMantrasFromSheet(sheetName: string): Promise<Mantra[]> {
+  async getSheetSnapshots(
+    previous: Record<string, SheetSnapshot> = {},
+    sheetNames?: string[]
+  ): Promise<Array<{ name: string; snapshot: SheetSnapshot; unchanged: boolean }>> {
+    if (!this.isSignedIn()) {
+      await this.signIn();
+    }
+
     try {
-      const response = await (window as any).gapi.client.sheets.spreadsheets.values.get({
-        spreadsheetId: SHEET_ID,
-        range: `${sheetName}!A:Z`, // Read all columns
-      });
+      let valueRanges: any[];
+      if (sheetNames && sheetNames.length > 0) {
+        valueRanges = await this.batchGet(sheetNames);
+      } else {
+        const knownTabs = this.getKnownTabs();
+        sheetNames = this.selectTabs(knownTabs || await this.getSheetNames());
+        if (sheetNames.length === 0) {
+          return [];
+        }
 
-      const rows = response.result.values;
-      if (!rows || rows.length === 0) {
-        console.log(`No data found in sheet: ${sheetName}`);
-        return [];
+        try {
+          valueRanges = await this.batchGet(sheetNames);
+        } catch (error) {
+          if (!knownTabs) throw error;
+          // A saved tab is gone or renamed; list the tabs again and retry once
+          sheetNames = this.selectTabs(await this.getSheetNames());
+          if (sheetNames.length === 0) {
+            return [];
+          }
+          valueRanges = await this.batchGet(sheetNames);
+        }
       }
+      const names = sheetNames;
 
-      // First row is headers
-      const headers = rows[0].map((h: string) => h.toLowerCase().trim().replace(/\s+/g, ''));
-      const mantras: Mantra[] = [];
+      const results = names.map((name, index) => {
+        const rows: string[][] = valueRanges[index]?.values || [];
+        const { defaultCategory } = this.getTabSetting(name);
+        const hash = hashSheet(rows, defaultCategory);
 
-      // Process each row (skip header row)
-      for (let i = 1; i < rows.length; i++) {
-        const row = rows[i];
-        const mantraData: GoogleSheetsRow = {};
-
-        // Map row values to headers
-        headers.forEach((header: string, index: number) => {
-          mantraData[header] = row[index] || '';
-        });
-
-        // Map to Mantra interface with new column names
-        const mantra: Mantra = {
-          id: mantraData.id || `gsheet-${sheetName}-${i}`,
-          name: mantraData.mantra || mantraData.name || '',
-          gurmukhi: mantraData.gurmukhi || '',
-          category: mantraData.category || 'Other',
-          source: 'core',
-          // New fields
-          optimalTime: mantraData.optimaltime || '',
-          optionality: mantraData.optionality || '',
-          targetRecitations: mantraData.targetrecitations
-            ? parseInt(mantraData.targetrecitations)
-            : undefined,
-          guruAuthorship: mantraData.guruauthorship || '',
-          guruNumber: mantraData.gurunumber
-            ? parseInt(mantraData.gurunumber)
-            : undefined,
-          significance: mantraData.significance || '',
-          // Legacy fields for backwards compatibility
-          traditionalCount: mantraData.targetrecitations
-            ? parseInt(mantraData.targetrecitations)
-            : mantraData.traditionalcount
-            ? parseInt(mantraData.traditionalcount)
-            : undefined,
-          translation: mantraData.significance || mantraData.translation || '',
-        };
-
-        // Only add if name is present
-        if (mantra.name) {
-          mantras.push(mantra);
+        if (previous[name]?.hash === hash) {
+          return { name, snapshot: previous[name], unchanged: true };
         }
-      }
+        return { name, snapshot: { hash, ...parseMantraSheet(name, rows, defaultCategory) }, unchanged: false };
+      });
 
-      return mantras;
+      const unchanged = results.filter(result => result.unchanged).length;
+      console.log(`Fetched ${names.length} sheet(s), ${unchanged} unchanged`);
+      return results;
     } catch (error) {
-      console.error(`Error fetching mantras from sheet ${sheetName}:`, error);
-      return [];
+      console.error('Error fetching mantras from Google Sheets:', error);
+      throw error;
     }
   }
 
   /**
-   * Fetch mantras from multiple sheets or all sheets
+   * Fetch mantras from the given sheets or the tabs selected for syncing, with a report of what was left out
    */
-  async getMantras(sheetNames?: string[]): Promise<Mantra[]> {
-    if (!this.isSignedIn()) {
-      await this.signIn();
-    }
-
-    try {
-      // If no sheet names provided, get all sheets
-      if (!sheetNames || sheetNames.length === 0) {
-        const allSheetNames = await this.getSheetNames();
-        sheetNames = allSheetNames;
-      }
-
-      // Fetch mantras from all specified sheets in parallel
-      const mantraArrays = await Promise.all(
-        sheetNames.map(sheetName => this.getMantrasFromSheet(sheetName))
-      );
-
-      // Flatten the array of arrays
-      const allMantras = mantraArrays.flat();
+  async getMantrasWithReport(sheetNames?: string[]): Promise<{ mantras: Mantra[]; report: SheetImportReport }> {
+    const results = await this.getSheetSnapshots({}, sheetNames);
+    return combineSheetSnapshots(results.map(result => result.snapshot));
+  }
 
-      console.log(`Fetched ${allMantras.length} mantras from ${sheetNames.length} sheet(s)`);
-      return allMantras;
-    } catch (error) {
-      console.error('Error fetching mantras from Google Sheets:', error);
-      throw error;
-    }
+  /**
+   * Fetch mantras from the given sheets or the tabs selected for syncing
+   */
+  async getMantras(sheetNames?: string[]): Promise<Mantra[]> {
+    return (await this.getMantrasWithReport(sheetNames)).mantras;
   }
 
   /**
@@ -255,16 +363,167 @@ class GoogleSheetsService {
     try {
       const response = await (window as any).gapi.client.sheets.spreadsheets.get({
         spreadsheetId: SHEET_ID,
+        fields: 'sheets.properties.title', // Tab names only, not the whole spreadsheet
       });
 
-      const sheets = response.result.sheets;
-      return sheets.map((sheet: any) => sheet.properties.title);
+      const sheetNames: string[] = response.result.sheets.map((sheet: any) => sheet.properties.title);
+      localStorage.setItem(KNOWN_TABS_KEY, JSON.stringify(sheetNames));
+      return sheetNames;
     } catch (error) {
       console.error('Error fetching sheet names:', error);
       throw error;
     }
   }
 
+  /**
+   * Run a write-back request, turning gapi error responses into errors with a readable message
+   */
+  private async request(fn: () => Promise<any>): Promise<any> {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const status = error?.status ?? error?.result?.error?.code;
+      if (status === 401) {
+        this.accessToken = null;
+        this.grantedScopes = [];
+        throw new GoogleSheetsAuthError();
+      }
+      // The tab may have been deleted or renamed; look it up again on the next write
+      this.recitationsSheetId = null;
+      if (error instanceof Error) throw error;
+      throw new Error(error?.result?.error?.message || `Google Sheets request failed (${status ?? 'unknown error'})`);
+    }
+  }
+
+  /**
+   * Find the Recitations tab, creating it with a header row if it is missing
+   */
+  async ensureRecitationsSheet(): Promise<number> {
+    if (this.recitationsSheetId !== null) return this.recitationsSheetId;
+
+    const sheets = (window as any).gapi.client.sheets.spreadsheets;
+    const response = await this.request(() => sheets.get({ spreadsheetId: SHEET_ID }));
+    const existing = response.result.sheets.find((sheet: any) => sheet.properties.title === RECITATIONS_SHEET);
+
+    if (existing) {
+      this.recitationsSheetId = existing.properties.sheetId as number;
+    } else {
+      const created = await this.request(() => sheets.batchUpdate({
+        spreadsheetId: SHEET_ID,
+        resource: {
+          requests: [{
+            addSheet: { properties: { title: RECITATIONS_SHEET, gridProperties: { frozenRowCount: 1 } } },
+          }],
+        },
+      }));
+      this.recitationsSheetId = created.result.replies[0].addSheet.properties.sheetId as number;
+
+      await this.request(() => sheets.values.update({
+        spreadsheetId: SHEET_ID,
+        range: `${RECITATIONS_SHEET}!A1`,
+        valueInputOption: 'RAW',
+        resource: { values: [RECITATION_COLUMNS] },
+      }));
+    }
+
+    return this.recitationsSheetId!;
+  }
+
+  /**
+   * 1-based row number of a recitation in the Recitations tab, or null if it has no row yet
+   */
+  private async findRecitationRow(id: string): Promise<number | null> {
+    const response = await this.request(() => (window as any).gapi.client.sheets.spreadsheets.values.get({
+      spreadsheetId: SHEET_ID,
+      range: `${RECITATIONS_SHEET}!A:A`,
+    }));
+    const index = (response.result.values || []).findIndex((row: string[]) => row[0] === id);
+    return index >= 0 ? index + 1 : null;
+  }
+
+  /**
+   * Delete a recitation's row. Rows are deleted by position, and a shared sheet can
+   * shift between the lookup and the delete, so the ID cell is checked again just
+   * before deleting and the lookup is repeated if the row has moved.
+   */
+  private async deleteRecitationRow(sheetId: number, id: string): Promise<void> {
+    const sheets = (window as any).gapi.client.sheets.spreadsheets;
+
+    for (let attempt = 0; attempt < MAX_ROW_LOOKUPS; attempt++) {
+      const row = await this.findRecitationRow(id);
+      if (row === null) return; // Never written, or already removed by hand
+
+      const check = await this.request(() => sheets.values.get({
+        spreadsheetId: SHEET_ID,
+        range: `${RECITATIONS_SHEET}!A${row}`,
+      }));
+      if (check.result.values?.[0]?.[0] !== id) continue;
+
+      await this.request(() => sheets.batchUpdate({
+        spreadsheetId: SHEET_ID,
+        resource: {
+          requests: [{
+            deleteDimension: { range: { sheetId, dimension: 'ROWS', startIndex: row - 1, endIndex: row } },
+          }],
+        },
+      }));
+      return;
+    }
+
+    throw new Error('The Recitations tab kept changing while deleting a row; will retry');
+  }
+
+  private toRow(recitation: MantraRecitation, recitedAt: Date): Array<string | number> {
+    return [
+      recitation.id,
+      toDayKey(recitedAt),
+      dayjs(recitedAt).format('YYYY-MM-DD HH:mm'),
+      asText(this.getWriteBackSettings().name),
+      asText(recitation.mantraName),
+      recitation.mantraId || 'custom',
+      recitation.count,
+      recitation.duration ?? '',
+      asText(recitation.notes),
+    ];
+  }
+
+  /**
+   * Write one recitation change to the Recitations tab.
+   * Rows are looked up by recitation ID, so resending a change never duplicates a row.
+   */
+  async writeRecitation(recitation: MantraRecitation, operation: SyncOperation, queuedAt: number): Promise<void> {
+    if (!this.canWrite()) {
+      throw new GoogleSheetsAuthError('Sign in to Google with write access to sync recitations to the sheet.');
+    }
+
+    const sheets = (window as any).gapi.client.sheets.spreadsheets;
+    const sheetId = await this.ensureRecitationsSheet();
+
+    if (operation === 'delete') {
+      await this.deleteRecitationRow(sheetId, recitation.id);
+      return;
+    }
+
+    const row = await this.findRecitationRow(recitation.id);
+    const values = [this.toRow(recitation, recitation.timestamp || new Date(queuedAt))];
+    if (row === null) {
+      await this.request(() => sheets.values.append({
+        spreadsheetId: SHEET_ID,
+        range: `${RECITATIONS_SHEET}!A1`,
+        valueInputOption: 'USER_ENTERED',
+        insertDataOption: 'INSERT_ROWS',
+        resource: { values },
+      }));
+    } else {
+      await this.request(() => sheets.values.update({
+        spreadsheetId: SHEET_ID,
+        range: `${RECITATIONS_SHEET}!A${row}`,
+        valueInputOption: 'USER_ENTERED',
+        resource: { values },
+      }));
+    }
+  }
+
   /**
    * Test the connection to Google Sheets
    */
@@ -1,6 +1,9 @@
 // Hybrid Mantra Service: FastAPI Backend + Airtable + Google Sheets + User Submissions
-import { api } from '../lib/api';
+import { api, Recitation, RecitationFields, DeletedRecitation } from '../lib/api';
 import { googleSheetsService } from './googleSheetsService';
+import { userMantraRepository, mantraCacheRepository } from '../lib/repository';
+import { broadcastChange, onBroadcastChange } from '../lib/tabSync';
+import { SheetsRefresh, combineSheetSnapshots, diffMantras, isEmptyDiff } from '../lib/sheetImport';
 
 const AIRTABLE_BASE_ID = process.env.REACT_APP_AIRTABLE_BASE_ID;
 const AIRTABLE_API_KEY = process.env.REACT_APP_AIRTABLE_API_KEY;
@@ -32,8 +35,27 @@ export interface Mantra {
 class MantraService {
   private coreMantrasCacheKey = 'coreMantras';
   private googleSheetsCacheKey = 'googleSheetsMantras';
-  private userMantrasKey = 'userMantras';
   private cacheExpiry = 24 * 60 * 60 * 1000; // 24 hours
+  private sheetsRetryMs = 5 * 60 * 1000; // Between background refreshes that failed
+  private changeTopic = 'mantras';
+  private listeners: Array<(mantras: Mantra[]) => void> = [];
+  private idChangeListeners: Array<(idChanges: Record<string, string>) => Promise<void> | void> = [];
+  // Shared library snapshot so subscribers don't each refetch every source
+  private latest: Mantra[] | null = null;
+  private loading: Promise<Mantra[]> | null = null;
+  // Bumped on every change, so a load that started before it is never taken as current
+  private generation = 0;
+  private sheetsRefresh: Promise<SheetsRefresh> | null = null;
+  private sheetsRefreshStartedAt = 0;
+
+  constructor() {
+    // Pick up mantras added, edited or synced in another tab
+    onBroadcastChange((topic) => {
+      if (topic === this.changeTopic) {
+        this.reload();
+      }
+    });
+  }
 
   // Get all mantras (prioritize Google Sheets, fallback to backend + core)
   async getAllMantras(): Promise<Mantra[]> {
@@ -73,7 +95,7 @@ class MantraService {
 
   // Get core mantras from Airtable (with caching)
   private async getCoreMantras(): Promise<Mantra[]> {
-    const cached = this.getCachedCoreMantras();
+    const cached = await this.getCachedCoreMantras();
     if (cached) return cached;
 
     try {
@@ -107,10 +129,7 @@ class MantraService {
       }));
 
       // Cache the results
-      localStorage.setItem(this.coreMantrasCacheKey, JSON.stringify({
-        data: mantras,
-        timestamp: Date.now(),
-      }));
+      await mantraCacheRepository.put(this.coreMantrasCacheKey, mantras);
 
       return mantras;
     } catch (error) {
@@ -119,52 +138,69 @@ class MantraService {
     }
   }
 
-  // Get mantras from Google Sheets (with caching)
+  // Get mantras from Google Sheets; a stale cache is shown while it is refreshed in the background
   private async getGoogleSheetsMantras(): Promise<Mantra[]> {
     if (!GOOGLE_SHEET_ENABLED) return [];
 
-    const cached = this.getCachedGoogleSheetsMantras();
-    if (cached) return cached;
+    const cached = await mantraCacheRepository.get(this.googleSheetsCacheKey).catch(() => null);
+    if (cached) {
+      const stale = Date.now() - cached.timestamp > this.cacheExpiry;
+      if (stale && Date.now() - this.sheetsRefreshStartedAt > this.sheetsRetryMs) {
+        this.refreshSheets()
+          .then(refresh => {
+            if (!isEmptyDiff(refresh.diff)) return this.changed();
+          })
+          .catch(error => console.error('Error refreshing Google Sheets in the background:', error));
+      }
+      return cached.data;
+    }
 
     try {
-      const mantras = await googleSheetsService.getMantras();
-
-      // Cache the results
-      localStorage.setItem(this.googleSheetsCacheKey, JSON.stringify({
-        data: mantras,
-        timestamp: Date.now(),
-      }));
-
-      return mantras;
+      // Nothing to show yet, so wait for the first read
+      await this.refreshSheets();
+      return (await mantraCacheRepository.get(this.googleSheetsCacheKey))?.data || [];
     } catch (error) {
       console.error('Error fetching Google Sheets mantras:', error);
       return [];
     }
   }
 
-  // Get cached Google Sheets mantras if still valid
-  private getCachedGoogleSheetsMantras(): Mantra[] | null {
-    try {
-      const cached = localStorage.getItem(this.googleSheetsCacheKey);
-      if (!cached) return null;
+  // Re-read the selected tabs, reusing unchanged ones, and cache the result with what changed.
+  // Concurrent callers share one refresh.
+  private refreshSheets(): Promise<SheetsRefresh> {
+    if (!this.sheetsRefresh) {
+      this.sheetsRefreshStartedAt = Date.now();
+      this.sheetsRefresh = this.readSheets().finally(() => {
+        this.sheetsRefresh = null;
+      });
+    }
+    return this.sheetsRefresh;
+  }
 
-      const { data, timestamp } = JSON.parse(cached);
-      if (Date.now() - timestamp > this.cacheExpiry) {
-        localStorage.removeItem(this.googleSheetsCacheKey);
-        return null;
-      }
+  private async readSheets(): Promise<SheetsRefresh> {
+    const cached = await mantraCacheRepository.get(this.googleSheetsCacheKey);
+    const results = await googleSheetsService.getSheetSnapshots(cached?.sheets);
+    const { mantras, report } = combineSheetSnapshots(results.map(result => result.snapshot));
 
-      return data;
-    } catch {
-      return null;
+    const refresh: SheetsRefresh = {
+      at: Date.now(),
+      diff: diffMantras(cached?.data || [], mantras),
+      report,
+      unchangedSheets: results.filter(result => result.unchanged).map(result => result.name),
+    };
+    const sheets = Object.fromEntries(results.map(result => [result.name, result.snapshot]));
+    await mantraCacheRepository.put(this.googleSheetsCacheKey, mantras, { sheets, lastRefresh: refresh });
+
+    if (Object.keys(refresh.diff.idChanges).length > 0) {
+      await this.notifyIdChanges(refresh.diff.idChanges);
     }
+    return refresh;
   }
 
-  // Get user-submitted mantras from local storage
-  getUserMantras(): Mantra[] {
+  // Get user-submitted mantras from the local database
+  async getUserMantras(): Promise<Mantra[]> {
     try {
-      const stored = localStorage.getItem(this.userMantrasKey);
-      return stored ? JSON.parse(stored) : [];
+      return await userMantraRepository.getAll();
     } catch (error) {
       console.error('Error loading user mantras:', error);
       return [];
@@ -172,7 +208,7 @@ class MantraService {
   }
 
   // Add user-submitted mantra
-  addUserMantra(mantra: Omit<Mantra, 'id' | 'source' | 'submittedAt'>): Mantra {
+  async addUserMantra(mantra: Omit<Mantra, 'id' | 'source' | 'submittedAt'>): Promise<Mantra> {
     const newMantra: Mantra = {
       ...mantra,
       id: `user-${Date.now()}`,
@@ -180,13 +216,17 @@ class MantraService {
       submittedAt: new Date(),
     };
 
-    const userMantras = this.getUserMantras();
-    userMantras.push(newMantra);
-    
-    localStorage.setItem(this.userMantrasKey, JSON.stringify(userMantras));
+    await userMantraRepository.put(newMantra);
+    await this.changed();
     return newMantra;
   }
 
+  // Update a user-submitted mantra
+  async updateUserMantra(mantra: Mantra): Promise<void> {
+    await userMantraRepository.put(mantra);
+    await this.changed();
+  }
+
   // Submit user mantra to Airtable for review (optional)
   async submitForReview(mantra: Mantra): Promise<boolean> {
     if (!AIRTABLE_BASE_ID || !AIRTABLE_API_KEY) return false;
@@ -224,30 +264,34 @@ class MantraService {
   }
 
   // Delete user mantra
-  deleteUserMantra(id: string): boolean {
-    const userMantras = this.getUserMantras();
-    const filtered = userMantras.filter(m => m.id !== id);
-    
-    if (filtered.length !== userMantras.length) {
-      localStorage.setItem(this.userMantrasKey, JSON.stringify(filtered));
-      return true;
+  async deleteUserMantra(id: string): Promise<boolean> {
+    const userMantras = await this.getUserMantras();
+    if (!userMantras.some(m => m.id === id)) {
+      return false;
     }
-    return false;
+
+    await userMantraRepository.delete(id);
+    await this.changed();
+    return true;
   }
 
   // Get cached core mantras if still valid
-  private getCachedCoreMantras(): Mantra[] | null {
+  private async getCachedCoreMantras(): Promise<Mantra[] | null> {
+    return this.getCachedMantras(this.coreMantrasCacheKey);
+  }
+
+  // Read a mantra cache entry, dropping it once expired
+  private async getCachedMantras(key: string): Promise<Mantra[] | null> {
     try {
-      const cached = localStorage.getItem(this.coreMantrasCacheKey);
+      const cached = await mantraCacheRepository.get(key);
       if (!cached) return null;
 
-      const { data, timestamp } = JSON.parse(cached);
-      if (Date.now() - timestamp > this.cacheExpiry) {
-        localStorage.removeItem(this.coreMantrasCacheKey);
+      if (Date.now() - cached.timestamp > this.cacheExpiry) {
+        await mantraCacheRepository.delete(key);
         return null;
       }
 
-      return data;
+      return cached.data;
     } catch {
       return null;
     }
@@ -282,36 +326,49 @@ class MantraService {
     return sikthCounts[category] || 108;
   }
 
-  // Save recitation to backend
-  async saveRecitation(recitationData: {
-    mantraId: string;
-    count: number;
-    duration: number;
-    notes?: string;
-  }): Promise<boolean> {
+  // Save recitation to backend, returning the server-assigned ID (rethrows so the sync queue can record the error)
+  async saveRecitation(clientId: string, recitationData: RecitationFields): Promise<string> {
     try {
-      await api.createRecitation({
-        mantra_id: recitationData.mantraId,
+      const response = await api.createRecitation({
+        ...recitationData,
+        client_id: clientId,
         user_id: 'default-user', // You can enhance this with real user management
-        count: recitationData.count,
-        duration_minutes: recitationData.duration,
-        notes: recitationData.notes,
       });
-      return true;
+      return response.id;
     } catch (error) {
       console.error('Error saving recitation to backend:', error);
-      return false;
+      throw error;
+    }
+  }
+
+  // Update a recitation on the backend (rethrows so the sync queue can record the error)
+  async updateRecitation(serverId: string, recitationData: RecitationFields): Promise<void> {
+    try {
+      await api.updateRecitation(serverId, recitationData);
+    } catch (error) {
+      console.error('Error updating recitation on backend:', error);
+      throw error;
     }
   }
 
-  // Get recitations from backend
-  async getRecitations() {
+  // Delete a recitation on the backend (rethrows so the sync queue can record the error)
+  async deleteRecitation(serverId: string): Promise<void> {
     try {
-      const response = await api.getRecitations();
-      return response.data;
+      await api.deleteRecitation(serverId);
+    } catch (error) {
+      console.error('Error deleting recitation on backend:', error);
+      throw error;
+    }
+  }
+
+  // Get recitations from backend (only those changed or deleted after `since` when given)
+  async getRecitations(since?: string): Promise<{ recitations: Recitation[]; deleted: DeletedRecitation[] }> {
+    try {
+      const response = await api.getRecitations(since ? { since } : undefined);
+      return { recitations: response.data, deleted: response.deleted || [] };
     } catch (error) {
       console.error('Error fetching recitations:', error);
-      return [];
+      return { recitations: [], deleted: [] };
     }
   }
 
@@ -327,9 +384,10 @@ class MantraService {
   }
 
   // Clear cache (for testing or manual refresh)
-  clearCache(): void {
-    localStorage.removeItem(this.coreMantrasCacheKey);
-    localStorage.removeItem(this.googleSheetsCacheKey);
+  async clearCache(): Promise<void> {
+    await mantraCacheRepository.delete(this.coreMantrasCacheKey);
+    await mantraCacheRepository.delete(this.googleSheetsCacheKey);
+    await this.changed();
   }
 
   // Google Sheets specific methods
@@ -337,14 +395,24 @@ class MantraService {
     return !!GOOGLE_SHEET_ENABLED;
   }
 
-  async refreshGoogleSheets(): Promise<boolean> {
+  // Re-read the sheets now, returning what changed and what was left out (null if the sheets couldn't be read)
+  async refreshGoogleSheets(): Promise<SheetsRefresh | null> {
     try {
-      localStorage.removeItem(this.googleSheetsCacheKey);
-      await this.getGoogleSheetsMantras();
-      return true;
+      const refresh = await this.refreshSheets();
+      await this.changed();
+      return refresh;
     } catch (error) {
       console.error('Error refreshing Google Sheets:', error);
-      return false;
+      return null;
+    }
+  }
+
+  // What the most recent refresh (manual or background) changed
+  async getLastSheetsRefresh(): Promise<SheetsRefresh | null> {
+    try {
+      return (await mantraCacheRepository.get(this.googleSheetsCacheKey))?.lastRefresh || null;
+    } catch {
+      return null;
     }
   }
 
@@ -355,6 +423,75 @@ class MantraService {
   getGoogleSheetsService() {
     return googleSheetsService;
   }
+
+  // Register for mantras whose ID changed on refresh, so data pointing at the old ID can follow
+  onMantraIdsChanged(listener: (idChanges: Record<string, string>) => Promise<void> | void): () => void {
+    this.idChangeListeners.push(listener);
+    return () => {
+      this.idChangeListeners = this.idChangeListeners.filter(l => l !== listener);
+    };
+  }
+
+  private async notifyIdChanges(idChanges: Record<string, string>) {
+    console.log(`Reconciling ${Object.keys(idChanges).length} changed mantra IDs`);
+    await Promise.all(this.idChangeListeners.map(listener =>
+      Promise.resolve(listener(idChanges)).catch(error => console.error('Error reconciling mantra IDs:', error))
+    ));
+  }
+
+  // Subscribe to the shared mantra library; the listener gets the current list right away
+  subscribe(listener: (mantras: Mantra[]) => void): () => void {
+    this.listeners.push(listener);
+
+    if (this.latest) {
+      listener(this.latest);
+    } else {
+      this.load().then(mantras => {
+        if (this.listeners.includes(listener)) listener(mantras);
+      });
+    }
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  // Load the library once, sharing the request between concurrent subscribers
+  private load(): Promise<Mantra[]> {
+    if (!this.loading) {
+      const generation = this.generation;
+      this.loading = this.getAllMantras()
+        .then(mantras => {
+          if (generation === this.generation) this.latest = mantras;
+          return mantras;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  // Reload after a change. A load already in flight may have read the library before the
+  // change, so it is waited out and a fresh one started; only the newest reload publishes.
+  private async reload() {
+    const generation = ++this.generation;
+    this.latest = null;
+    if (this.loading) {
+      await this.loading.catch(() => undefined);
+    }
+
+    const mantras = await this.load();
+    if (generation === this.generation) {
+      this.listeners.forEach(listener => listener(mantras));
+    }
+  }
+
+  private async changed() {
+    await this.reload();
+    broadcastChange(this.changeTopic);
+  }
 }
 
 export const mantraService = new MantraService();
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { MantraRecitation } from '../types';
+import { generateId } from '../lib/uuid';
+import { broadcastChange, onBroadcastChange } from '../lib/tabSync';
+import { recitationRepository, syncQueueRepository, deadLetterRepository, compareRecitationTime } from '../lib/repository';
+import { fromServerRecitation, mergeServerRecitations } from '../lib/recitationSync';
+import { mantraService } from './mantraService';
+
+class RecitationService {
+  private changeTopic = 'recitations';
+  private pullCursorKey = 'recitationsLastPulledAt';
+  private cache: MantraRecitation[] | null = null;
+  private listeners: Array<(recitations: MantraRecitation[]) => void> = [];
+
+  constructor() {
+    // Pick up recitations logged or acknowledged in another tab
+    onBroadcastChange((topic) => {
+      if (topic === this.changeTopic) {
+        this.cache = null;
+        this.getRecitations().then(recitations => this.notifyListeners(recitations));
+      }
+    });
+  }
+
+  /**
+   * Get all locally stored recitations (cached in memory after the first read)
+   */
+  async getRecitations(): Promise<MantraRecitation[]> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    try {
+      this.cache = await recitationRepository.getAll();
+      return this.cache;
+    } catch (error) {
+      console.error('Error reading recitations:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create a recitation with a stable client-generated ID
+   */
+  async addRecitation(recitation: Omit<MantraRecitation, 'id'>): Promise<MantraRecitation> {
+    const newRecitation: MantraRecitation = {
+      ...recitation,
+      id: generateId(),
+      syncState: 'pending',
+    };
+
+    await this.save([newRecitation]);
+    return newRecitation;
+  }
+
+  /**
+   * Save imported recitations in one write, keeping any client IDs they carry
+   */
+  async importRecitations(recitations: MantraRecitation[]): Promise<MantraRecitation[]> {
+    const imported = recitations.map(r => ({
+      ...r,
+      id: r.id || generateId(),
+      syncState: 'pending' as const,
+    }));
+
+    await this.save(imported);
+    return imported;
+  }
+
+  /**
+   * Apply partial updates to a stored recitation
+   */
+  async updateRecitation(id: string, updates: Partial<Omit<MantraRecitation, 'id'>>): Promise<MantraRecitation | null> {
+    const existing = (await this.getRecitations()).find(r => r.id === id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = { ...existing, ...updates };
+    await this.save([updated]);
+    return updated;
+  }
+
+  /**
+   * Point recitations at the new IDs of mantras whose ID changed, returning the recitations that moved
+   */
+  async reassignMantraIds(idChanges: Record<string, string>): Promise<MantraRecitation[]> {
+    const moved = (await this.getRecitations())
+      .filter(r => r.mantraId && idChanges[r.mantraId])
+      .map(r => ({ ...r, mantraId: idChanges[r.mantraId!], syncState: 'pending' as const }));
+
+    if (moved.length > 0) {
+      await this.save(moved);
+    }
+    return moved;
+  }
+
+  /**
+   * Remove a recitation from local history
+   */
+  async deleteRecitation(id: string): Promise<void> {
+    await recitationRepository.delete(id);
+
+    this.cache = (await this.getRecitations()).filter(r => r.id !== id);
+    this.notifyListeners(this.cache);
+    broadcastChange(this.changeTopic);
+  }
+
+  /**
+   * Record the backend acknowledgement for a recitation
+   */
+  async markSynced(id: string, serverId: string) {
+    await this.updateRecitation(id, { serverId, syncState: 'synced' });
+  }
+
+  /**
+   * Mark a recitation as failed to sync
+   */
+  async markFailed(id: string) {
+    await this.updateRecitation(id, { syncState: 'failed' });
+  }
+
+  /**
+   * Pull recitations logged, edited or deleted on other devices and merge them into local history
+   */
+  async pullFromServer(): Promise<number> {
+    const since = localStorage.getItem(this.pullCursorKey) || undefined;
+    const { recitations: remote, deleted } = await mantraService.getRecitations(since);
+    if (remote.length === 0 && deleted.length === 0) {
+      return 0;
+    }
+
+    // Resolve display names from the mantra library, falling back to the name sent with the recitation
+    const mantras = await mantraService.getAllMantras();
+    const namesById = new Map(mantras.map(m => [m.id, m.name]));
+
+    // Don't resurrect recitations deleted here whose delete hasn't reached the server yet
+    const pendingDeletes = new Set(
+      [...await syncQueueRepository.getAll(), ...await deadLetterRepository.getAll()]
+        .filter(item => item.operation === 'delete')
+        .flatMap(item => [item.id, item.recitation.serverId])
+    );
+
+    const { changed, removed } = mergeServerRecitations(
+      await this.getRecitations(),
+      remote
+        .map(r => fromServerRecitation(r, namesById))
+        .filter(r => !pendingDeletes.has(r.id) && !pendingDeletes.has(r.serverId)),
+      deleted
+    );
+    if (changed.length > 0) {
+      await this.save(changed);
+    }
+    if (removed.length > 0) {
+      await this.removeDeletedOnServer(removed);
+    }
+
+    // Advance the cursor using server timestamps so device clock skew can't skip rows
+    const cursor = [...remote.map(r => r.updated_at || r.created_at), ...deleted.map(d => d.deleted_at)]
+      .reduce((latest, value) => (value > latest ? value : latest), since || '');
+    if (cursor) {
+      localStorage.setItem(this.pullCursorKey, cursor);
+    }
+
+    return changed.length + removed.length;
+  }
+
+  /**
+   * Drop recitations another device deleted, along with any local change still queued for them
+   */
+  private async removeDeletedOnServer(ids: string[]) {
+    await recitationRepository.deleteMany(ids);
+    for (const id of ids) {
+      await syncQueueRepository.delete(id);
+      await deadLetterRepository.delete(id);
+    }
+
+    const removed = new Set(ids);
+    this.cache = (await this.getRecitations()).filter(r => !removed.has(r.id));
+    this.notifyListeners(this.cache);
+    broadcastChange(this.changeTopic);
+  }
+
+  /**
+   * Subscribe to recitation changes
+   */
+  subscribe(listener: (recitations: MantraRecitation[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Call with current recitations once they are loaded
+    this.getRecitations().then(recitations => {
+      if (this.listeners.includes(listener)) listener(recitations);
+    });
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Upsert recitations, refresh the in-memory cache and notify listeners and other tabs
+   */
+  private async save(recitations: MantraRecitation[]) {
+    await recitationRepository.putMany(recitations);
+
+    const byId = new Map((await this.getRecitations()).map(r => [r.id, r]));
+    recitations.forEach(r => byId.set(r.id, r));
+    this.cache = Array.from(byId.values()).sort(compareRecitationTime);
+
+    this.notifyListeners(this.cache);
+    broadcastChange(this.changeTopic);
+  }
+
+  private notifyListeners(recitations: MantraRecitation[]) {
+    this.listeners.forEach(listener => listener(recitations));
+  }
+}
+
+export const recitationService = new RecitationService();
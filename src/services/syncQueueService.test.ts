@@ -0,0 +1,113 @@
+import { syncQueueService } from './syncQueueService';
+import { mantraService } from './mantraService';
+import { syncQueueRepository } from '../lib/repository';
+import { MantraRecitation, QueuedRecitation } from '../types';
+
+// In-memory stand-ins for the IndexedDB queue stores
+jest.mock('../lib/repository', () => {
+  const store = () => {
+    const items = new Map<string, any>();
+    return {
+      items,
+      getAll: async () => Array.from(items.values()),
+      get: async (id: string) => items.get(id) || null,
+      put: async (item: any) => { items.set(item.id, item); },
+      putMany: async (list: any[]) => { list.forEach(item => items.set(item.id, item)); },
+      delete: async (id: string) => { items.delete(id); },
+      clear: async () => { items.clear(); },
+    };
+  };
+  return { syncQueueRepository: store(), deadLetterRepository: store(), sheetQueueRepository: store() };
+});
+
+jest.mock('../lib/tabSync', () => ({
+  withTabLock: async (name: string, task: () => Promise<void>) => {
+    await task();
+    return true;
+  },
+  broadcastChange: jest.fn(),
+  onBroadcastChange: jest.fn(),
+}));
+
+jest.mock('./mantraService', () => ({
+  mantraService: {
+    onMantraIdsChanged: jest.fn(),
+    testConnection: jest.fn(),
+    saveRecitation: jest.fn(),
+    updateRecitation: jest.fn(),
+    deleteRecitation: jest.fn(),
+  },
+}));
+
+jest.mock('./recitationService', () => ({
+  recitationService: {
+    updateRecitation: jest.fn(),
+    markSynced: jest.fn(),
+    markFailed: jest.fn(),
+  },
+}));
+
+jest.mock('./googleSheetsService', () => ({
+  googleSheetsService: {
+    isWriteBackEnabled: () => false,
+    canWrite: () => false,
+  },
+  GoogleSheetsAuthError: class extends Error {},
+}));
+
+const queueItems = (syncQueueRepository as unknown as { items: Map<string, QueuedRecitation> }).items;
+const mocked = mantraService as jest.Mocked<typeof mantraService>;
+
+function recitation(overrides: Partial<MantraRecitation> = {}): MantraRecitation {
+  return { id: 'r1', mantraId: 'm1', mantraName: 'Waheguru', count: 1080, timestamp: new Date(2024, 0, 1, 6), ...overrides };
+}
+
+describe('SyncQueueService', () => {
+  beforeEach(() => {
+    queueItems.clear();
+    mocked.testConnection.mockResolvedValue(true);
+    // Every change gets its own updatedAt
+    let now = Date.UTC(2024, 0, 1);
+    jest.spyOn(Date, 'now').mockImplementation(() => (now += 1000));
+  });
+
+  it('keeps an edit folded in while a failing update is in flight', async () => {
+    await syncQueueService.queueRecitation(recitation({ serverId: 's1' }), 'update');
+    mocked.updateRecitation.mockImplementationOnce(async () => {
+      await syncQueueService.queueRecitation(recitation({ serverId: 's1', count: 108 }), 'update');
+      throw new Error('Server unavailable');
+    });
+
+    await syncQueueService.syncQueue();
+
+    const queued = queueItems.get('r1')!;
+    expect(queued.operation).toBe('update');
+    expect(queued.recitation.count).toBe(108);
+    expect(queued.retries).toBe(0);
+    expect(queued.nextAttemptAt).toBeUndefined();
+  });
+
+  it('keeps a delete folded in while a failing create is in flight', async () => {
+    await syncQueueService.queueRecitation(recitation());
+    mocked.saveRecitation.mockImplementationOnce(async () => {
+      await syncQueueService.queueRecitation(recitation(), 'delete');
+      throw new Error('Server unavailable');
+    });
+
+    await syncQueueService.syncQueue();
+
+    expect(queueItems.get('r1')!.operation).toBe('delete');
+  });
+
+  it('backs off an unchanged item after a failed send', async () => {
+    await syncQueueService.queueRecitation(recitation({ serverId: 's1' }), 'update');
+    mocked.updateRecitation.mockRejectedValueOnce(new Error('Server unavailable'));
+
+    await syncQueueService.syncQueue();
+
+    const queued = queueItems.get('r1')!;
+    expect(queued.retries).toBe(1);
+    expect(queued.lastError).toBe('Server unavailable');
+    expect(queued.nextAttemptAt).toBeGreaterThan(Date.now());
+  });
+});
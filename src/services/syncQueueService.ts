@@ -1,103 +1,304 @@
-import { MantraRecitation } from '../types';
+import { MantraRecitation, QueuedRecitation, DeadLetterItem, SyncOperation, SheetWriteBackSettings } from '../types';
 import { mantraService } from './mantraService';
-
-interface QueuedRecitation {
-  id: string;
-  recitation: Omit<MantraRecitation, 'id'>;
-  timestamp: number;
-  retries: number;
+import { recitationService } from './recitationService';
+import { googleSheetsService, GoogleSheetsAuthError } from './googleSheetsService';
+import { ApiError } from '../lib/api';
+import { withTabLock, broadcastChange, onBroadcastChange } from '../lib/tabSync';
+import { syncQueueRepository, deadLetterRepository, sheetQueueRepository } from '../lib/repository';
+import { toServerRecitation } from '../lib/recitationSync';
+
+// The Google Sheet is a second, optional sync target with its own queue and status
+export interface SheetSyncStatus {
+  enabled: boolean;
+  needsSignIn: boolean; // Write access is granted per session, so changes wait until the user signs in
+  pending: number;
+  failed: number; // Changes that exhausted their retries, kept until retried or write-back is turned off
+  syncing: boolean;
+  lastError: string | null;
+  lastSuccessfulSync: number | null;
 }
 
-interface SyncStatus {
+export interface SyncStatus {
   pending: number;
   syncing: boolean;
   lastSyncAttempt: number | null;
   lastSuccessfulSync: number | null;
+  deadLetter: DeadLetterItem[];
+  sheets: SheetSyncStatus;
 }
 
 class SyncQueueService {
   private queueKey = 'syncQueue';
+  private sheetQueueKey = 'sheetQueue';
   private statusKey = 'syncStatus';
   private maxRetries = 5;
-  private syncInterval: NodeJS.Timeout | null = null;
+  private baseBackoffMs = 5000;
+  private maxBackoffMs = 10 * 60 * 1000;
+  private syncTimer: NodeJS.Timeout | null = null;
+  private autoSyncEnabled = false;
+  private isSyncing = false;
+  private connectionFailures = 0;
+  private lockRetryMs = 30000;
+  private lockedOutUntil = 0;
+  private inFlightId: string | null = null;
+  private sheetTimer: NodeJS.Timeout | null = null;
+  private isSyncingSheets = false;
+  private sheetLockedOutUntil = 0;
+  private sheetInFlightId: string | null = null;
   private listeners: Array<(status: SyncStatus) => void> = [];
 
+  constructor() {
+    // Another tab changed the queue: refresh listeners and re-plan the next run
+    onBroadcastChange((topic) => {
+      if (topic === this.queueKey) {
+        this.getStatus().then(status => this.notifyListeners(status));
+        this.scheduleNextSync();
+        this.scheduleSheetSync();
+      }
+    });
+
+    // Recitations follow mantras whose ID changed in the sheet. The backend has to learn the
+    // new ID as well, or the next pull would bring the old one back.
+    mantraService.onMantraIdsChanged(async (idChanges) => {
+      const moved = await recitationService.reassignMantraIds(idChanges);
+      for (const recitation of moved) {
+        await this.queueRecitation(recitation, 'update');
+      }
+    });
+  }
+
   /**
-   * Add a recitation to the sync queue
+   * Add a recitation change to the sync queue.
+   * There is at most one item per recitation, so later edits are folded into it:
+   * an edit to an unsent create just updates its payload, and deleting something
+   * the server has never seen drops it from the queue.
    */
-  queueRecitation(recitation: Omit<MantraRecitation, 'id'>): string {
-    const queue = this.getQueue();
-    const queuedItem: QueuedRecitation = {
-      id: `queued-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      recitation,
-      timestamp: Date.now(),
-      retries: 0,
-    };
+  async queueRecitation(recitation: MantraRecitation, operation: SyncOperation = 'create'): Promise<string> {
+    const queued = await syncQueueRepository.get(recitation.id);
+    if (operation === 'create' && queued) {
+      return recitation.id; // Already queued
+    }
 
-    queue.push(queuedItem);
-    localStorage.setItem(this.queueKey, JSON.stringify(queue));
-    this.updateStatus();
+    // A change to a recitation in the dead-letter list takes it out of there
+    const existing = queued || await deadLetterRepository.get(recitation.id);
+    const existingOperation = existing?.operation || 'create';
+    const neverSent = !!queued && existingOperation === 'create' && queued.retries === 0
+      && this.inFlightId !== recitation.id;
+    await deadLetterRepository.delete(recitation.id);
+
+    if (operation === 'delete' && neverSent) {
+      await syncQueueRepository.delete(recitation.id);
+    } else if (operation === 'delete' && !existing && !recitation.serverId) {
+      // Never synced and nothing queued: nothing to remove on the server
+    } else {
+      // An edit before the create reached the server is still a create
+      const mergedOperation: SyncOperation = operation === 'update' && existingOperation === 'create' && existing
+        ? 'create'
+        : operation;
+
+      const queuedItem: QueuedRecitation = {
+        id: recitation.id,
+        operation: mergedOperation,
+        recitation: { ...recitation, serverId: recitation.serverId || existing?.recitation.serverId },
+        timestamp: existing?.timestamp || Date.now(),
+        updatedAt: Date.now(),
+        retries: 0,
+      };
+      await syncQueueRepository.put(queuedItem);
+    }
 
-    return queuedItem.id;
+    if (googleSheetsService.isWriteBackEnabled()) {
+      await this.queueSheetChange(recitation, operation);
+    }
+
+    await this.updateStatus();
+    this.requestSync();
+
+    return recitation.id;
+  }
+
+  /**
+   * Queue many new recitations at once, as after an import.
+   * Each queue is written in one transaction, and status, tabs and the sync run
+   * are updated once for the whole batch.
+   */
+  async queueRecitations(recitations: MantraRecitation[]): Promise<void> {
+    const queuedIds = new Set((await this.getQueue()).map(item => item.id));
+    const now = Date.now();
+    const items: QueuedRecitation[] = recitations
+      .filter(recitation => !queuedIds.has(recitation.id))
+      .map(recitation => ({
+        id: recitation.id,
+        operation: 'create',
+        recitation,
+        timestamp: now,
+        updatedAt: now,
+        retries: 0,
+      }));
+    if (items.length === 0) return;
+
+    await syncQueueRepository.putMany(items);
+    if (googleSheetsService.isWriteBackEnabled()) {
+      await sheetQueueRepository.putMany(items);
+    }
+
+    await this.updateStatus();
+    this.requestSync();
+  }
+
+  /**
+   * Add a recitation change to the Google Sheet queue, folded like backend changes.
+   * Rows are written by recitation ID, so only deleting an unwritten create needs special care.
+   */
+  private async queueSheetChange(recitation: MantraRecitation, operation: SyncOperation) {
+    const queued = await sheetQueueRepository.get(recitation.id);
+    const neverWritten = !!queued && (queued.operation || 'create') === 'create' && queued.retries === 0
+      && this.sheetInFlightId !== recitation.id;
+
+    if (operation === 'delete' && neverWritten) {
+      await sheetQueueRepository.delete(recitation.id);
+      return;
+    }
+
+    await sheetQueueRepository.put({
+      id: recitation.id,
+      operation: operation === 'update' && queued?.operation === 'create' ? 'create' : operation,
+      recitation,
+      timestamp: queued?.timestamp || Date.now(),
+      updatedAt: Date.now(),
+      retries: 0,
+    });
   }
 
   /**
    * Get all queued items
    */
-  getQueue(): QueuedRecitation[] {
+  async getQueue(): Promise<QueuedRecitation[]> {
     try {
-      const queue = localStorage.getItem(this.queueKey);
-      return queue ? JSON.parse(queue) : [];
+      return await syncQueueRepository.getAll();
     } catch (error) {
       console.error('Error reading sync queue:', error);
       return [];
     }
   }
 
+  /**
+   * Get recitations that failed permanently
+   */
+  async getDeadLetter(): Promise<DeadLetterItem[]> {
+    try {
+      return await deadLetterRepository.getAll();
+    } catch (error) {
+      console.error('Error reading dead-letter list:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get queued Google Sheet changes
+   */
+  async getSheetQueue(): Promise<QueuedRecitation[]> {
+    try {
+      return await sheetQueueRepository.getAll();
+    } catch (error) {
+      console.error('Error reading sheet queue:', error);
+      return [];
+    }
+  }
+
   /**
    * Get sync status
    */
-  getStatus(): SyncStatus {
+  async getStatus(): Promise<SyncStatus> {
+    const deadLetter = await this.getDeadLetter();
+    const sheetQueue = await this.getSheetQueue();
+    let stored: Partial<SyncStatus> = {};
     try {
-      const status = localStorage.getItem(this.statusKey);
-      if (status) {
-        return JSON.parse(status);
-      }
+      stored = JSON.parse(localStorage.getItem(this.statusKey) || '{}');
     } catch (error) {
       console.error('Error reading sync status:', error);
     }
 
+    const enabled = googleSheetsService.isWriteBackEnabled();
     return {
       pending: 0,
       syncing: false,
       lastSyncAttempt: null,
       lastSuccessfulSync: null,
+      ...stored,
+      deadLetter,
+      sheets: {
+        syncing: false,
+        lastError: null,
+        lastSuccessfulSync: null,
+        ...stored.sheets,
+        // Queue counts and sign-in state are always read fresh
+        enabled,
+        needsSignIn: enabled && !googleSheetsService.canWrite(),
+        pending: sheetQueue.filter(item => item.retries < this.maxRetries).length,
+        failed: sheetQueue.filter(item => item.retries >= this.maxRetries).length,
+      },
     };
   }
 
   /**
    * Update sync status
    */
-  private updateStatus(updates?: Partial<SyncStatus>) {
-    const queue = this.getQueue();
-    const currentStatus = this.getStatus();
-    const newStatus: SyncStatus = {
+  private async updateStatus(updates?: Partial<SyncStatus>) {
+    const queue = await this.getQueue();
+    const currentStatus = await this.getStatus();
+    const { deadLetter, ...persisted }: SyncStatus = {
       ...currentStatus,
       pending: queue.length,
       ...updates,
     };
 
-    localStorage.setItem(this.statusKey, JSON.stringify(newStatus));
-    this.notifyListeners(newStatus);
+    // The dead-letter list lives in its own store, so only the counters are persisted here
+    localStorage.setItem(this.statusKey, JSON.stringify(persisted));
+    this.notifyListeners({ ...persisted, deadLetter });
+    broadcastChange(this.queueKey);
+  }
+
+  private async updateSheetStatus(updates: Partial<SheetSyncStatus>) {
+    const { sheets } = await this.getStatus();
+    await this.updateStatus({ sheets: { ...sheets, ...updates } });
   }
 
   /**
-   * Attempt to sync all queued recitations
+   * Attempt to sync all queued recitations that are due
    */
   async syncQueue(): Promise<void> {
-    const queue = this.getQueue();
+    if (this.isSyncing || !this.canSync()) {
+      return;
+    }
 
-    if (queue.length === 0) {
+    const now = Date.now();
+    const dueItems = (await this.getQueue()).filter(item => !item.nextAttemptAt || item.nextAttemptAt <= now);
+
+    if (dueItems.length === 0) {
+      this.scheduleNextSync();
+      return;
+    }
+
+    this.isSyncing = true;
+    try {
+      // Only one tab drains the queue at a time; the others pick up its broadcast when it finishes
+      const acquired = await withTabLock(this.queueKey, () => this.drainQueue());
+      this.lockedOutUntil = acquired ? 0 : Date.now() + this.lockRetryMs;
+    } finally {
+      this.isSyncing = false;
+      this.scheduleNextSync();
+    }
+  }
+
+  /**
+   * Send due items to the backend (runs while holding the cross-tab lock)
+   */
+  private async drainQueue(): Promise<void> {
+    // Re-read under the lock, another tab may have just synced these items
+    const now = Date.now();
+    const dueItems = (await this.getQueue()).filter(item => !item.nextAttemptAt || item.nextAttemptAt <= now);
+    if (dueItems.length === 0) {
       return;
     }
 
@@ -105,82 +306,380 @@ class SyncQueueService {
     const isBackendAvailable = await mantraService.testConnection();
     if (!isBackendAvailable) {
       console.log('Backend not available, skipping sync');
-      this.updateStatus({ lastSyncAttempt: Date.now() });
+      this.connectionFailures += 1;
+      await this.updateStatus({ lastSyncAttempt: Date.now() });
       return;
     }
+    this.connectionFailures = 0;
 
-    this.updateStatus({ syncing: true, lastSyncAttempt: Date.now() });
+    await this.updateStatus({ syncing: true, lastSyncAttempt: Date.now() });
 
     const successfulIds: string[] = [];
-    const failedQueue: QueuedRecitation[] = [];
 
-    for (const item of queue) {
+    for (const item of dueItems) {
+      this.inFlightId = item.id;
       try {
-        // Attempt to sync this recitation
-        const success = await mantraService.saveRecitation({
-          mantraId: 'default', // You may want to enhance this
-          count: item.recitation.count,
-          duration: item.recitation.duration || 0,
-          notes: item.recitation.notes,
-        });
-
-        if (success) {
-          console.log(`Successfully synced recitation ${item.id}`);
-          successfulIds.push(item.id);
-        } else {
-          throw new Error('Sync failed');
-        }
+        const serverId = await this.sendItem(item);
+
+        console.log(`Successfully synced recitation ${item.id}`);
+        successfulIds.push(item.id);
+        await this.completeItem(item, serverId);
       } catch (error) {
         console.error(`Failed to sync recitation ${item.id}:`, error);
 
-        // Increment retry count
+        // An edit or delete folded in while sending replaces this item and is sent fresh next run
+        const current = await syncQueueRepository.get(item.id);
+        if (!current || current.updatedAt !== item.updatedAt) {
+          continue;
+        }
+
+        // Increment retry count and remember why it failed
         item.retries += 1;
+        item.lastError = error instanceof Error ? error.message : String(error);
+        item.httpStatus = error instanceof ApiError ? error.status : null;
 
-        // Keep in queue if under max retries
+        // Keep in queue with a backoff if under max retries
         if (item.retries < this.maxRetries) {
-          failedQueue.push(item);
+          item.nextAttemptAt = Date.now() + this.getBackoffDelay(item.retries);
+          await syncQueueRepository.put(item);
         } else {
-          console.warn(`Max retries reached for recitation ${item.id}, removing from queue`);
+          console.warn(`Max retries reached for recitation ${item.id}, moving to dead-letter list`);
+          await deadLetterRepository.put({
+            ...item,
+            lastError: item.lastError,
+            httpStatus: item.httpStatus,
+            failedAt: Date.now(),
+          });
+          await syncQueueRepository.delete(item.id);
+          await recitationService.markFailed(item.id);
         }
+      } finally {
+        this.inFlightId = null;
       }
     }
 
-    // Update queue with failed items
-    localStorage.setItem(this.queueKey, JSON.stringify(failedQueue));
+    // Items are updated one by one, so anything queued while syncing is left untouched
+    const remainingQueue = await this.getQueue();
+    const allSynced = remainingQueue.length === 0;
+    await this.updateStatus({
+      syncing: false,
+      lastSuccessfulSync: allSynced ? Date.now() : (await this.getStatus()).lastSuccessfulSync,
+    });
+
+    console.log(`Sync complete: ${successfulIds.length} synced, ${remainingQueue.length} remaining`);
+  }
+
+  /**
+   * Send one queued change to the backend, returning the server ID of the recitation
+   */
+  private async sendItem(item: QueuedRecitation): Promise<string> {
+    const { recitation } = item;
+    const payload = toServerRecitation(recitation, item.timestamp);
+
+    // Without a server ID the backend has not acknowledged the create yet; the POST is
+    // idempotent on the client ID, so it is safe to (re)send it before updating or deleting
+    const serverId = recitation.serverId
+      || await mantraService.saveRecitation(item.id, payload);
+
+    const operation = item.operation || 'create';
+    if (operation === 'update' && recitation.serverId) {
+      await mantraService.updateRecitation(serverId, payload);
+    } else if (operation === 'delete') {
+      await mantraService.deleteRecitation(serverId);
+    }
+
+    return serverId;
+  }
+
+  /**
+   * Remove a sent item, keeping any edit that was folded into it while it was in flight
+   */
+  private async completeItem(item: QueuedRecitation, serverId: string) {
+    const current = await syncQueueRepository.get(item.id);
+
+    if (current && current.updatedAt !== item.updatedAt) {
+      // The server now has the recitation, so a pending create becomes an update
+      await syncQueueRepository.put({
+        ...current,
+        operation: current.operation === 'delete' ? 'delete' : 'update',
+        recitation: { ...current.recitation, serverId },
+      });
+      if (current.operation !== 'delete') {
+        await recitationService.updateRecitation(item.id, { serverId });
+      }
+      return;
+    }
+
+    await syncQueueRepository.delete(item.id);
+    if (item.operation !== 'delete') {
+      await recitationService.markSynced(item.id, serverId);
+    }
+  }
+
+  /**
+   * Write due changes to the Google Sheet. Only the user can grant write access, so
+   * without a sign-in the changes wait and the status asks for one.
+   */
+  async syncSheets(): Promise<void> {
+    if (this.isSyncingSheets || !this.canSync() || !googleSheetsService.canWrite()) {
+      return;
+    }
+
+    const dueItems = await this.getDueSheetItems();
+    if (dueItems.length === 0) {
+      this.scheduleSheetSync();
+      return;
+    }
+
+    this.isSyncingSheets = true;
+    try {
+      const acquired = await withTabLock(this.sheetQueueKey, () => this.drainSheetQueue());
+      this.sheetLockedOutUntil = acquired ? 0 : Date.now() + this.lockRetryMs;
+    } finally {
+      this.isSyncingSheets = false;
+      this.scheduleSheetSync();
+    }
+  }
+
+  private async getDueSheetItems(): Promise<QueuedRecitation[]> {
+    const now = Date.now();
+    return (await this.getSheetQueue())
+      .filter(item => item.retries < this.maxRetries && (!item.nextAttemptAt || item.nextAttemptAt <= now));
+  }
+
+  /**
+   * Write due changes to the sheet (runs while holding the cross-tab lock)
+   */
+  private async drainSheetQueue(): Promise<void> {
+    const dueItems = await this.getDueSheetItems();
+    if (dueItems.length === 0) {
+      return;
+    }
+
+    await this.updateSheetStatus({ syncing: true });
+
+    let lastError: string | null = null;
+    for (const item of dueItems) {
+      this.sheetInFlightId = item.id;
+      try {
+        await googleSheetsService.writeRecitation(item.recitation, item.operation || 'create', item.timestamp);
+
+        // An edit folded in while writing is sent again on the next run
+        const current = await sheetQueueRepository.get(item.id);
+        if (!current || current.updatedAt === item.updatedAt) {
+          await sheetQueueRepository.delete(item.id);
+        }
+      } catch (error) {
+        console.error(`Failed to write recitation ${item.id} to the sheet:`, error);
+        lastError = error instanceof Error ? error.message : String(error);
+        if (error instanceof GoogleSheetsAuthError) {
+          break; // Nothing gets through until the user signs in again
+        }
+
+        const current = await sheetQueueRepository.get(item.id);
+        if (current && current.updatedAt === item.updatedAt) {
+          const retries = item.retries + 1;
+          await sheetQueueRepository.put({
+            ...item,
+            retries,
+            lastError,
+            nextAttemptAt: retries < this.maxRetries ? Date.now() + this.getBackoffDelay(retries) : undefined,
+          });
+        }
+      } finally {
+        this.sheetInFlightId = null;
+      }
+    }
 
-    const allSynced = failedQueue.length === 0;
-    this.updateStatus({
+    const remaining = await this.getSheetQueue();
+    await this.updateSheetStatus({
       syncing: false,
-      lastSuccessfulSync: allSynced ? Date.now() : this.getStatus().lastSuccessfulSync,
+      lastError,
+      lastSuccessfulSync: remaining.length === 0 ? Date.now() : (await this.getStatus()).sheets.lastSuccessfulSync,
     });
+  }
+
+  /**
+   * Schedule the next sheet run for the earliest change waiting on its backoff
+   */
+  private async scheduleSheetSync() {
+    this.clearSheetTimer();
+    if (!this.autoSyncEnabled || !this.canSync() || !googleSheetsService.canWrite()) {
+      return;
+    }
+
+    const waiting = (await this.getSheetQueue()).filter(item => item.retries < this.maxRetries);
+    this.clearSheetTimer();
+    if (waiting.length === 0) {
+      return;
+    }
+
+    const nextAt = Math.max(Math.min(...waiting.map(item => item.nextAttemptAt || 0)), this.sheetLockedOutUntil);
+    this.sheetTimer = setTimeout(() => {
+      this.sheetTimer = null;
+      this.syncSheets();
+    }, Math.max(0, nextAt - Date.now()));
+  }
+
+  private clearSheetTimer() {
+    if (this.sheetTimer) {
+      clearTimeout(this.sheetTimer);
+      this.sheetTimer = null;
+    }
+  }
+
+  /**
+   * Turn writing recitations to the Google Sheet on or off.
+   * Enabling asks for write access and creates the Recitations tab; disabling drops unsent changes.
+   */
+  async setSheetWriteBack(settings: SheetWriteBackSettings): Promise<void> {
+    const wasEnabled = googleSheetsService.isWriteBackEnabled();
+    googleSheetsService.saveWriteBackSettings(settings);
+
+    if (settings.enabled) {
+      try {
+        if (!googleSheetsService.canWrite()) {
+          await googleSheetsService.signIn();
+        }
+        await googleSheetsService.ensureRecitationsSheet();
+      } catch (error) {
+        googleSheetsService.saveWriteBackSettings({ ...settings, enabled: wasEnabled });
+        throw error;
+      }
+    } else {
+      await sheetQueueRepository.clear();
+      this.clearSheetTimer();
+    }
+
+    await this.updateSheetStatus({ lastError: null });
+    this.requestSync();
+  }
+
+  /**
+   * Sign in again after the Google session expired and resume writing to the sheet
+   */
+  async resumeSheetSync(): Promise<void> {
+    await googleSheetsService.signIn();
+    await this.updateSheetStatus({ lastError: null });
+    this.requestSync();
+  }
+
+  /**
+   * Give sheet changes that exhausted their retries another round
+   */
+  async retrySheetFailures(): Promise<void> {
+    const failed = (await this.getSheetQueue()).filter(item => item.retries >= this.maxRetries);
+    for (const item of failed) {
+      await sheetQueueRepository.put({ ...item, retries: 0, nextAttemptAt: undefined });
+    }
+    await this.updateSheetStatus({ lastError: null });
+    this.requestSync();
+  }
+
+  /**
+   * Exponential backoff with jitter: a random delay between half and the full backoff window
+   */
+  private getBackoffDelay(retries: number): number {
+    const delay = Math.min(this.maxBackoffMs, this.baseBackoffMs * Math.pow(2, retries - 1));
+    return Math.round(delay / 2 + Math.random() * (delay / 2));
+  }
+
+  /**
+   * Sync only while online and while the tab is visible
+   */
+  private canSync(): boolean {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return false;
+    }
+    return typeof document === 'undefined' || document.visibilityState !== 'hidden';
+  }
+
+  /**
+   * Schedule the next run for the earliest item that is waiting on its backoff
+   */
+  private async scheduleNextSync() {
+    this.clearTimer();
+    if (!this.autoSyncEnabled || !this.canSync()) {
+      return;
+    }
+
+    const queue = await this.getQueue();
+    this.clearTimer(); // A newer call may have scheduled while the queue was loading
+    if (queue.length === 0) {
+      return; // Nothing to do until something is queued
+    }
 
-    console.log(`Sync complete: ${successfulIds.length} synced, ${failedQueue.length} remaining`);
+    const nextItemAt = Math.min(...queue.map(item => item.nextAttemptAt || 0));
+    const nextConnectionAt = this.connectionFailures > 0
+      ? Date.now() + this.getBackoffDelay(this.connectionFailures)
+      : 0;
+    const delay = Math.max(0, Math.max(nextItemAt, nextConnectionAt, this.lockedOutUntil) - Date.now());
+
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      this.syncQueue();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
   }
 
   /**
-   * Start automatic background sync (every 30 seconds)
+   * Run a sync now if auto-sync is active
    */
-  startAutoSync(intervalMs: number = 30000) {
-    if (this.syncInterval) {
+  private requestSync() {
+    if (this.autoSyncEnabled) {
+      this.syncQueue();
+      this.syncSheets();
+    }
+  }
+
+  private handleConnectivityChange = () => {
+    if (this.canSync()) {
+      this.connectionFailures = 0;
+      this.syncQueue();
+      this.syncSheets();
+    } else {
+      // Paused while offline or hidden
+      this.clearTimer();
+      this.clearSheetTimer();
+    }
+  };
+
+  /**
+   * Start automatic background sync, driven by backoff timers and online/visibility events
+   */
+  startAutoSync() {
+    if (this.autoSyncEnabled) {
       return; // Already running
     }
 
     console.log('Starting auto-sync...');
-    this.syncInterval = setInterval(() => {
-      this.syncQueue();
-    }, intervalMs);
+    this.autoSyncEnabled = true;
+    window.addEventListener('online', this.handleConnectivityChange);
+    window.addEventListener('offline', this.handleConnectivityChange);
+    document.addEventListener('visibilitychange', this.handleConnectivityChange);
 
     // Initial sync
     this.syncQueue();
+    this.syncSheets();
   }
 
   /**
    * Stop automatic background sync
    */
   stopAutoSync() {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
+    if (this.autoSyncEnabled) {
+      this.autoSyncEnabled = false;
+      this.clearTimer();
+      this.clearSheetTimer();
+      window.removeEventListener('online', this.handleConnectivityChange);
+      window.removeEventListener('offline', this.handleConnectivityChange);
+      document.removeEventListener('visibilitychange', this.handleConnectivityChange);
       console.log('Stopped auto-sync');
     }
   }
@@ -191,8 +690,10 @@ class SyncQueueService {
   subscribe(listener: (status: SyncStatus) => void): () => void {
     this.listeners.push(listener);
 
-    // Immediately call with current status
-    listener(this.getStatus());
+    // Call with current status once it is loaded
+    this.getStatus().then(status => {
+      if (this.listeners.includes(listener)) listener(status);
+    });
 
     // Return unsubscribe function
     return () => {
@@ -207,19 +708,54 @@ class SyncQueueService {
     this.listeners.forEach(listener => listener(status));
   }
 
+  /**
+   * Move a dead-letter item back into the queue, optionally with corrected values
+   */
+  async retryDeadLetter(id: string, updates?: Partial<Omit<MantraRecitation, 'id'>>): Promise<boolean> {
+    const item = (await this.getDeadLetter()).find(d => d.id === id);
+    if (!item) {
+      return false;
+    }
+
+    const recitation: MantraRecitation = { ...item.recitation, ...updates, syncState: 'pending' };
+    await recitationService.updateRecitation(id, { ...updates, syncState: 'pending' });
+
+    await syncQueueRepository.put({
+      id,
+      operation: item.operation,
+      recitation,
+      timestamp: item.timestamp,
+      updatedAt: Date.now(),
+      retries: 0,
+    });
+    await deadLetterRepository.delete(id);
+    await this.updateStatus();
+    this.requestSync();
+
+    return true;
+  }
+
+  /**
+   * Give up syncing a dead-letter item (the local recitation is kept, marked as failed)
+   */
+  async discardDeadLetter(id: string) {
+    await deadLetterRepository.delete(id);
+    await this.updateStatus();
+  }
+
   /**
    * Clear the sync queue (use with caution)
    */
-  clearQueue() {
-    localStorage.removeItem(this.queueKey);
-    this.updateStatus({ pending: 0 });
+  async clearQueue() {
+    await syncQueueRepository.clear();
+    await this.updateStatus({ pending: 0 });
   }
 
   /**
    * Get queue size
    */
-  getQueueSize(): number {
-    return this.getQueue().length;
+  async getQueueSize(): Promise<number> {
+    return (await this.getQueue()).length;
   }
 }
 
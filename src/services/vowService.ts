@@ -0,0 +1,119 @@
+import { Vow } from '../types';
+import { generateId } from '../lib/uuid';
+import { broadcastChange, onBroadcastChange } from '../lib/tabSync';
+import { vowRepository } from '../lib/repository';
+import { todayKey } from '../lib/dates';
+import { mantraService } from './mantraService';
+
+class VowService {
+  private changeTopic = 'vows';
+  private listeners: Array<(vows: Vow[]) => void> = [];
+
+  constructor() {
+    // Pick up vows created or changed in another tab
+    onBroadcastChange((topic) => {
+      if (topic === this.changeTopic) {
+        this.getVows().then(vows => this.notifyListeners(vows));
+      }
+    });
+
+    // Keep vows attached to mantras whose ID changed in the sheet
+    mantraService.onMantraIdsChanged(idChanges => this.reassignMantraIds(idChanges));
+  }
+
+  /**
+   * Get all vows, including abandoned ones, oldest first
+   */
+  async getVows(): Promise<Vow[]> {
+    try {
+      return await vowRepository.getAll();
+    } catch (error) {
+      console.error('Error reading vows:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Take a new vow, starting today unless a start date is given
+   */
+  async addVow(vow: Omit<Vow, 'id' | 'createdAt' | 'startDate'> & { startDate?: string }): Promise<Vow> {
+    const newVow: Vow = {
+      ...vow,
+      id: generateId(),
+      startDate: vow.startDate || todayKey(),
+      createdAt: new Date(),
+    };
+
+    await vowRepository.put(newVow);
+    await this.changed();
+    return newVow;
+  }
+
+  /**
+   * Apply partial updates to a vow
+   */
+  async updateVow(id: string, updates: Partial<Omit<Vow, 'id'>>): Promise<Vow | null> {
+    const existing = (await this.getVows()).find(v => v.id === id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated = { ...existing, ...updates };
+    await vowRepository.put(updated);
+    await this.changed();
+    return updated;
+  }
+
+  /**
+   * Give up a vow while keeping its record
+   */
+  async abandonVow(id: string) {
+    await this.updateVow(id, { abandonedAt: new Date() });
+  }
+
+  async deleteVow(id: string) {
+    await vowRepository.delete(id);
+    await this.changed();
+  }
+
+  /**
+   * Point vows at the new IDs of mantras whose ID changed
+   */
+  async reassignMantraIds(idChanges: Record<string, string>) {
+    const moved = (await this.getVows()).filter((vow) => vow.mantraId && idChanges[vow.mantraId]);
+    if (moved.length === 0) return;
+
+    for (const vow of moved) {
+      await vowRepository.put({ ...vow, mantraId: idChanges[vow.mantraId!] });
+    }
+    await this.changed();
+  }
+
+  /**
+   * Subscribe to vow changes
+   */
+  subscribe(listener: (vows: Vow[]) => void): () => void {
+    this.listeners.push(listener);
+
+    // Call with current vows once they are loaded
+    this.getVows().then(vows => {
+      if (this.listeners.includes(listener)) listener(vows);
+    });
+
+    // Return unsubscribe function
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private async changed() {
+    this.notifyListeners(await this.getVows());
+    broadcastChange(this.changeTopic);
+  }
+
+  private notifyListeners(vows: Vow[]) {
+    this.listeners.forEach(listener => listener(vows));
+  }
+}
+
+export const vowService = new VowService();
@@ -1,10 +1,75 @@
+export type RecitationSyncState = 'pending' | 'synced' | 'failed';
+
 export interface MantraRecitation {
   id: string;
+  mantraId?: string; // resolved ID of the mantra from the library ('custom' for free-text entries)
   mantraName: string;
   count: number;
   duration?: number; // in minutes (optional)
   timestamp?: Date; // optional
   notes?: string;
+  serverId?: string; // ID assigned by the backend once the recitation is acknowledged
+  syncState?: RecitationSyncState;
+}
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export interface QueuedRecitation {
+  id: string; // same as the recitation ID, doubles as the idempotency key
+  operation?: SyncOperation; // defaults to 'create' for items queued before edits existed
+  recitation: MantraRecitation;
+  timestamp: number;
+  updatedAt?: number; // bumped whenever a later edit is folded into this item
+  retries: number;
+  lastError?: string;
+  httpStatus?: number | null;
+  nextAttemptAt?: number; // epoch ms before which the item is not retried
+}
+
+// A recitation that exhausted its retries, kept until the user retries or discards it
+export interface DeadLetterItem extends QueuedRecitation {
+  lastError: string;
+  httpStatus: number | null;
+  failedAt: number;
+}
+
+// Daily Bani tracking
+export interface BaniSession {
+  bani: string;
+  completed: boolean;
+  startTime: string;
+  endTime: string;
+  date: string;
+  recitationId?: string; // Recitation logged when the bani was marked complete
+}
+
+// How timestamps are assigned to practice days
+export interface DateSettings {
+  timeZone: string | null; // IANA zone; null follows the browser
+  dayStartHour: number; // Local hour (0-23) at which a new practice day begins
+}
+
+// Optional copy of every recitation into the shared Google Sheet
+export interface SheetWriteBackSettings {
+  enabled: boolean;
+  name: string; // Who the rows belong to, since the sheet is shared by the sangat
+}
+
+// Import choices for one tab of the mantra spreadsheet
+export interface SheetTabSetting {
+  sync: boolean;
+  defaultCategory: string; // For rows without a Category value; empty falls back to "Other"
+}
+
+export interface StreakStats {
+  current: number; // Practice days in the streak that is still alive
+  longest: number;
+  lastPracticed: string | null; // Local date, YYYY-MM-DD
+}
+
+export interface WeeklyStats {
+  weekStart: string; // Local date, YYYY-MM-DD
+  daysPracticed: number;
 }
 
 export interface MantraStats {
@@ -14,6 +79,9 @@ export interface MantraStats {
   averageCount: number;
   averageDuration: number;
   mostRecitedMantra: string;
+  currentStreak: number;
+  longestStreak: number;
+  mantraStreaks: Record<string, StreakStats>; // Keyed by mantra name
 }
 
 export interface DailyStats {
@@ -21,4 +89,74 @@ export interface DailyStats {
   count: number;
   duration: number;
   recitations: number;
-}
\ No newline at end of file
+  streak: number; // Length of the streak as of this day
+}
+
+export type GoalType = 'daily-count' | 'weekly-sessions' | 'lifetime-total';
+
+export interface Goal {
+  id: string;
+  mantraId?: string;
+  mantraName: string;
+  type: GoalType;
+  target: number;
+  startDate: string; // Local date, YYYY-MM-DD; recitations before this don't count
+  createdAt: Date;
+  archivedAt?: Date;
+}
+
+export interface GoalProgress {
+  current: number;
+  target: number;
+  percent: number;
+  completed: boolean;
+  periodStart: string; // Local date the current period began
+  periodEnd: string | null; // Last local date of the period, null for lifetime goals
+  projectedDate: string | null; // Local date the target is expected to be met at the recent pace
+}
+
+export interface GoalCompletion {
+  goalId: string;
+  mantraName: string;
+  type: GoalType;
+  target: number;
+  period: string; // Day or week start for recurring goals, start date for lifetime goals
+  completedOn: string; // Local date the target was reached
+}
+
+export type VowQuotaType = 'daily' | 'total';
+
+// What happens when a day is missed: start over, or add a day to the end
+export type VowMissRule = 'restart' | 'extend';
+
+export interface Vow {
+  id: string;
+  mantraId?: string;
+  mantraName: string;
+  startDate: string; // Local date, YYYY-MM-DD
+  durationDays: number;
+  quotaType: VowQuotaType;
+  quota: number; // Repetitions per day, or in total over the vow
+  missRule: VowMissRule;
+  createdAt: Date;
+  abandonedAt?: Date;
+}
+
+export type VowDayStatus = 'done' | 'partial' | 'missed' | 'pending';
+
+export interface VowDay {
+  date: string;
+  count: number;
+  status: VowDayStatus;
+}
+
+export interface VowEvaluation {
+  state: 'active' | 'completed' | 'abandoned';
+  days: VowDay[]; // Every day from the original start to the current end date
+  currentStart: string; // Start of the current attempt after any restarts
+  endDate: string; // Including any extensions
+  daysDone: number; // In the current attempt
+  totalCount: number; // In the current attempt
+  restarts: number;
+  extensions: number;
+}